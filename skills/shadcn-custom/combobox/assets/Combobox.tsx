@@ -110,3 +110,93 @@ export function Combobox({
     </div>
   );
 }
+
+interface MultiComboboxProps extends Omit<ComboboxProps, "value" | "onChange"> {
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+// Same look as Combobox, but toggles several values and stays open
+export function MultiCombobox({
+  options,
+  value,
+  onChange,
+  placeholder = "Seleccionar...",
+  searchPlaceholder = "Buscar...",
+  emptyMessage = "No se encontraron resultados.",
+  label,
+  className,
+  popoverClassName,
+  width = "w-[200px]",
+  disabled = false,
+}: MultiComboboxProps) {
+  const [open, setOpen] = React.useState(false);
+
+  const triggerLabel =
+    value.length === 1
+      ? (options.find((opt) => opt.value === value[0])?.label ?? value[0])
+      : value.length > 1
+        ? `${value.length} seleccionados`
+        : placeholder;
+
+  const toggle = (optionValue: string) =>
+    onChange(
+      value.includes(optionValue)
+        ? value.filter((item) => item !== optionValue)
+        : [...value, optionValue],
+    );
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      {label && <span className="text-sm font-medium">{label}</span>}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn("justify-between", width)}
+            disabled={disabled}
+          >
+            <span className="truncate">{triggerLabel}</span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className={cn("p-0", width, popoverClassName)}>
+          <Command>
+            <CommandInput placeholder={searchPlaceholder} />
+            <CommandList>
+              <CommandEmpty>{emptyMessage}</CommandEmpty>
+              <CommandGroup>
+                {options.map((option) => (
+                  <CommandItem
+                    key={option.value}
+                    value={option.label}
+                    disabled={option.disabled}
+                    onSelect={() => {
+                      if (option.disabled) return;
+                      toggle(option.value);
+                    }}
+                    className={cn(
+                      option.disabled && "opacity-50 cursor-not-allowed",
+                    )}
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        value.includes(option.value)
+                          ? "opacity-100"
+                          : "opacity-0",
+                      )}
+                    />
+                    {option.label}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
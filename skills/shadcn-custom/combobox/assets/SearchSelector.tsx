@@ -1,5 +1,5 @@
 import { useAuthStore } from "@/auth/store/auth.store";
-import { AppDataTable } from "@/components/custom/AppDataTable";
+import { DataTable } from "@/components/custom/DataTable";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -10,27 +10,13 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
-import { exportToExcel, exportToPdf } from "@/lib/export.utils";
-import {
-  flexRender,
-  getCoreRowModel,
-  getPaginationRowModel,
-  getSortedRowModel,
-  useReactTable,
   type ColumnDef,
+  type RowSelectionState,
   type SortingState,
+  type Table,
 } from "@tanstack/react-table";
 import { Search, X } from "lucide-react";
-import { useMemo, useState } from "react";
-import { toast } from "sonner";
-import { DataTablePagination } from "../custom/DataTablePagination";
+import { useRef, useState } from "react";
 
 interface SearchSelectorProps<T> {
   title: string;
@@ -50,7 +36,13 @@ interface SearchSelectorProps<T> {
   disabled?: boolean;
   focusRef?: React.Ref<HTMLInputElement>;
   manualPagination?: boolean;
+  // Client mode: scroll through every row instead of paginating
+  virtualize?: boolean;
   showPageSizeOptions?: boolean;
+  // Server mode: returns every row matching the search and sorting
+  fetchAllForExport?: (search: string, sorting: SortingState) => Promise<T[]>;
+  // Remembers sorting, search, columns and page size between visits
+  persistKey?: string;
 }
 
 export function SearchSelector<T>({
@@ -71,114 +63,20 @@ export function SearchSelector<T>({
   disabled = false,
   focusRef,
   manualPagination = true,
+  virtualize = false,
   showPageSizeOptions = true,
+  fetchAllForExport,
+  persistKey,
 }: SearchSelectorProps<T>) {
   const [isOpen, setIsOpen] = useState(false);
   const [internalSearch, setInternalSearch] = useState("");
-  const [rowSelection, setRowSelection] = useState({});
-  const [sorting, setSorting] = useState<SortingState>([]);
-  const [isExporting, setIsExporting] = useState(false);
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+  const tableRef = useRef<Table<T>>(null);
+  const listRef = useRef<HTMLDivElement>(null);
   const { user: currentUser } = useAuthStore();
 
-  const [internalPagination, setInternalPagination] = useState({
-    pageIndex: page - 1,
-    pageSize: size,
-  });
-
-  const paginationState = useMemo(
-    () =>
-      manualPagination
-        ? {
-            pageIndex: page - 1,
-            pageSize: size,
-          }
-        : internalPagination,
-    [manualPagination, page, size, internalPagination],
-  );
-
-  const table = useReactTable({
-    data,
-    columns,
-    pageCount: manualPagination ? Math.ceil(totalItems / size) : undefined,
-    state: {
-      pagination: paginationState,
-      rowSelection,
-      sorting,
-    },
-    onPaginationChange: (updater) => {
-      let nextState;
-      if (typeof updater === "function") {
-        nextState = updater(paginationState);
-      } else {
-        nextState = updater;
-      }
-
-      if (manualPagination) {
-        onPaginationChange?.(nextState.pageIndex + 1, nextState.pageSize);
-      } else {
-        setInternalPagination(nextState);
-      }
-    },
-    enableRowSelection: true,
-    enableMultiRowSelection: false,
-    onRowSelectionChange: setRowSelection,
-    onSortingChange: setSorting,
-    getCoreRowModel: getCoreRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    manualPagination,
-    enableMultiSort: true,
-  });
-
-  const handleExport = async (format: "pdf" | "excel") => {
-    try {
-      setIsExporting(true);
-      const toastId = toast.loading("Generando reporte...");
-
-      const rows = table.getRowModel().rows;
-      if (!rows.length) {
-        toast.error("No hay datos para exportar", { id: toastId });
-        return;
-      }
-
-      const leafColumns = table.getAllLeafColumns();
-      const exportColumns = leafColumns.map((col) => {
-        const header = col.columnDef.header;
-        if (typeof header === "string") return header;
-        const meta = col.columnDef.meta as { label?: unknown } | undefined;
-        if (typeof meta?.label === "string") {
-          return meta.label;
-        }
-        return col.id;
-      });
-
-      const exportOptions = {
-        title: `Reporte de ${title}`,
-        filename: `reporte_${title.toLowerCase().replace(/\s+/g, "_")}`,
-        generatedBy:
-          currentUser?.fullName || currentUser?.username || "Usuario",
-        columns: exportColumns,
-        data: rows.map((row) =>
-          leafColumns.map((col) => {
-            const value = row.getValue(col.id);
-            return value === null || value === undefined ? "" : String(value);
-          }),
-        ),
-      };
-
-      if (format === "pdf") {
-        exportToPdf(exportOptions);
-      } else {
-        await exportToExcel(exportOptions);
-      }
-
-      toast.success("Reporte generado correctamente", { id: toastId });
-    } catch {
-      toast.error("Error al generar el reporte");
-    } finally {
-      setIsExporting(false);
-    }
-  };
+  const getSelectedRow = () =>
+    tableRef.current?.getSelectedRowModel().rows[0]?.original;
 
   const handleOpen = () => {
     if (!disabled) setIsOpen(true);
@@ -244,32 +142,63 @@ export function SearchSelector<T>({
             </DialogDescription>
           </DialogHeader>
 
-          <div className="space-y-4 flex-1 flex flex-col min-h-0">
-            <AppDataTable
-              searchValue={internalSearch}
-              searchPlaceholder="Buscar..."
-              onSearchChange={(value) => {
+          <div ref={listRef} className="space-y-4 flex-1 flex flex-col min-h-0">
+            <DataTable
+              columns={columns}
+              data={data}
+              isLoading={isLoading}
+              selection="single"
+              // The server pages and searches; sorting stays on the page
+              manual={manualPagination && { pagination: true, filtering: true }}
+              rowCount={totalItems}
+              virtualize={virtualize && !manualPagination}
+              defaultPageSize={size}
+              pagination={
+                manualPagination
+                  ? { pageIndex: page - 1, pageSize: size }
+                  : undefined
+              }
+              onPaginationChange={
+                manualPagination
+                  ? ({ pageIndex, pageSize }) =>
+                      onPaginationChange?.(pageIndex + 1, pageSize)
+                  : undefined
+              }
+              globalFilter={internalSearch}
+              onGlobalFilterChange={(value) => {
                 setInternalSearch(value);
                 onSearchChange?.(value);
               }}
-              onClearSearch={() => {
-                setInternalSearch("");
-                onSearchChange?.("");
-              }}
+              rowSelection={rowSelection}
+              onRowSelectionChange={setRowSelection}
+              onRowDoubleClick={handleSelect}
+              // Enter on a row focused with the arrow keys picks it
+              onRowActivate={handleSelect}
+              tableRef={tableRef}
+              persistKey={persistKey}
+              entityName={title}
+              showPageSizeOptions={showPageSizeOptions}
+              searchPlaceholder="Buscar..."
               searchInputProps={{
                 onKeyDown: (e) => {
                   if (e.key === "Enter") {
-                    const rows = table.getRowModel().rows;
+                    const rows = tableRef.current?.getRowModel().rows ?? [];
                     if (rows.length === 1) {
                       handleSelect(rows[0].original);
                     }
+                  } else if (e.key === "ArrowDown") {
+                    // Into the list, on the row that has the tab stop
+                    e.preventDefault();
+                    listRef.current
+                      ?.querySelector<HTMLElement>(
+                        '[role="grid"] tbody tr[tabindex="0"]',
+                      )
+                      ?.focus();
                   }
                 },
                 autoFocus: true,
               }}
               searchInputRef={focusRef}
-              showResetSorting={sorting.length > 0}
-              onResetSorting={() => setSorting([])}
               tip={
                 <p>
                   <span className="font-semibold">Tip:</span> Para ordenar por
@@ -278,100 +207,27 @@ export function SearchSelector<T>({
                   al hacer clic en los encabezados.
                 </p>
               }
-              exportActions={{
-                onExportExcel: () => handleExport("excel"),
-                onExportPdf: () => handleExport("pdf"),
-                isExporting,
+              exportOptions={{
+                title: `Reporte de ${title}`,
+                filename: `reporte_${title.toLowerCase().replace(/\s+/g, "_")}`,
+                generatedBy:
+                  currentUser?.fullName || currentUser?.username || "Usuario",
+                fetchAll:
+                  fetchAllForExport &&
+                  (({ globalFilter, sorting }) =>
+                    fetchAllForExport(globalFilter, sorting)),
               }}
-            >
-              <div className="flex-1 overflow-auto rounded-md border">
-                <Table>
-                  <TableHeader className="bg-gray-50 sticky top-0 z-10">
-                    {table.getHeaderGroups().map((headerGroup) => (
-                      <TableRow key={headerGroup.id}>
-                        {headerGroup.headers.map((header) => (
-                          <TableHead
-                            key={header.id}
-                            className="text-gray-700 font-semibold text-center"
-                          >
-                            {header.isPlaceholder
-                              ? null
-                              : flexRender(
-                                  header.column.columnDef.header,
-                                  header.getContext(),
-                                )}
-                          </TableHead>
-                        ))}
-                      </TableRow>
-                    ))}
-                  </TableHeader>
-                  <TableBody>
-                    {isLoading ? (
-                      <TableRow>
-                        <TableCell
-                          colSpan={columns.length}
-                          className="h-24 text-center"
-                        >
-                          Cargando...
-                        </TableCell>
-                      </TableRow>
-                    ) : table.getRowModel().rows?.length ? (
-                      table.getRowModel().rows.map((row) => (
-                        <TableRow
-                          key={row.id}
-                          className={`hover:bg-gray-50/50 cursor-pointer select-none ${
-                            row.getIsSelected()
-                              ? "bg-primary/5 ring-1 ring-primary/30"
-                              : ""
-                          }`}
-                          onClick={() => row.toggleSelected(true)}
-                          onDoubleClick={() => handleSelect(row.original)}
-                        >
-                          {row.getVisibleCells().map((cell) => (
-                            <TableCell key={cell.id} className="text-center">
-                              {flexRender(
-                                cell.column.columnDef.cell,
-                                cell.getContext(),
-                              )}
-                            </TableCell>
-                          ))}
-                        </TableRow>
-                      ))
-                    ) : (
-                      <TableRow>
-                        <TableCell
-                          colSpan={columns.length}
-                          className="h-24 text-center"
-                        >
-                          No hay resultados.
-                        </TableCell>
-                      </TableRow>
-                    )}
-                  </TableBody>
-                </Table>
-              </div>
-
-              <div className="mt-2">
-                <DataTablePagination
-                  table={table}
-                  totalItems={totalItems}
-                  entityName={title}
-                  showPageSizeOptions={showPageSizeOptions}
-                />
-              </div>
-            </AppDataTable>
+            />
 
             <div className="flex justify-end gap-2 pt-4">
               <Button variant="outline" onClick={() => setIsOpen(false)}>
                 Cancelar
               </Button>
               <Button
-                disabled={!table.getSelectedRowModel().rows.length}
+                disabled={!Object.keys(rowSelection).length}
                 onClick={() => {
-                  const selectedRows = table.getSelectedRowModel().rows;
-                  if (selectedRows.length > 0) {
-                    handleSelect(selectedRows[0].original);
-                  }
+                  const selectedRow = getSelectedRow();
+                  if (selectedRow) handleSelect(selectedRow);
                 }}
               >
                 Seleccionar
@@ -0,0 +1,39 @@
+import type { ReactNode } from "react";
+import { create } from "zustand";
+
+export interface ConfirmOptions {
+  title?: string;
+  message: ReactNode;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  // ConfirmDialog shows a loader while it runs and an error toast if it fails
+  onConfirm: () => unknown;
+  onCancel?: () => unknown;
+}
+
+interface ConfirmStore extends ConfirmOptions {
+  isOpen: boolean;
+  openConfirm: (options: ConfirmOptions) => void;
+  closeConfirm: () => void;
+}
+
+export const useConfirmStore = create<ConfirmStore>((set) => ({
+  isOpen: false,
+  title: undefined,
+  message: null,
+  confirmLabel: undefined,
+  cancelLabel: undefined,
+  onConfirm: () => undefined,
+  onCancel: undefined,
+  // Options left out fall back to the dialog defaults
+  openConfirm: (options) =>
+    set({
+      title: undefined,
+      confirmLabel: undefined,
+      cancelLabel: undefined,
+      onCancel: undefined,
+      ...options,
+      isOpen: true,
+    }),
+  closeConfirm: () => set({ isOpen: false }),
+}));
@@ -2,11 +2,15 @@ import * as React from "react"
 
 import { cn } from "@/lib/utils"
 
-function Table({ className, ...props }: React.ComponentProps<"table">) {
+function Table({
+  className,
+  containerClassName,
+  ...props
+}: React.ComponentProps<"table"> & { containerClassName?: string }) {
   return (
     <div
       data-slot="table-container"
-      className="relative w-full overflow-x-auto"
+      className={cn("relative w-full overflow-x-auto", containerClassName)}
     >
       <table
         data-slot="table"
@@ -55,7 +59,7 @@ function TableRow({ className, ...props }: React.ComponentProps<"tr">) {
     <tr
       data-slot="table-row"
       className={cn(
-        "hover:bg-muted/50 data-[state=selected]:bg-muted border-b transition-colors h-12",
+        "group/row hover:bg-muted/50 data-[state=selected]:bg-muted border-b transition-colors h-12",
         className
       )}
       {...props}
@@ -63,27 +67,78 @@ function TableRow({ className, ...props }: React.ComponentProps<"tr">) {
   )
 }
 
-function TableHead({ className, ...props }: React.ComponentProps<"th">) {
+// Sticky cells for pinned columns. `pinOffset` is the distance to the pinned
+// edge (e.g. TanStack's `column.getStart("left")` / `column.getAfter("right")`)
+// and `pinEdge` marks the innermost pinned column, which casts the shadow.
+// Pinned cells are opaque so scrolled cells don't show through, and repeat the
+// row's hover and selected backgrounds over it.
+interface PinnableCellProps {
+  pinned?: "left" | "right" | false
+  pinOffset?: number
+  pinEdge?: boolean
+}
+
+function getPinnedCellProps(
+  { pinned, pinOffset = 0, pinEdge }: PinnableCellProps,
+  style?: React.CSSProperties
+) {
+  if (!pinned) return { "data-pinned": undefined, style, className: undefined }
+  return {
+    "data-pinned": pinned,
+    style: { ...style, [pinned]: pinOffset },
+    className: cn(
+      "bg-background group-hover/row:bg-[color-mix(in_oklab,var(--color-muted)_50%,var(--color-background))] group-data-[state=selected]/row:bg-muted sticky z-[1]",
+      pinEdge &&
+        (pinned === "left"
+          ? "shadow-[4px_0_4px_-4px_rgb(0_0_0/0.15)]"
+          : "shadow-[-4px_0_4px_-4px_rgb(0_0_0/0.15)]")
+    ),
+  }
+}
+
+function TableHead({
+  className,
+  style,
+  pinned,
+  pinOffset,
+  pinEdge,
+  ...props
+}: React.ComponentProps<"th"> & PinnableCellProps) {
+  const pinnedProps = getPinnedCellProps({ pinned, pinOffset, pinEdge }, style)
   return (
     <th
       data-slot="table-head"
+      data-pinned={pinnedProps["data-pinned"]}
       className={cn(
         "text-foreground h-10 px-2 text-left align-middle font-medium whitespace-nowrap [&:has([role=checkbox])]:pr-0 [&>[role=checkbox]]:translate-y-[2px]",
+        pinnedProps.className,
         className
       )}
+      style={pinnedProps.style}
       {...props}
     />
   )
 }
 
-function TableCell({ className, ...props }: React.ComponentProps<"td">) {
+function TableCell({
+  className,
+  style,
+  pinned,
+  pinOffset,
+  pinEdge,
+  ...props
+}: React.ComponentProps<"td"> & PinnableCellProps) {
+  const pinnedProps = getPinnedCellProps({ pinned, pinOffset, pinEdge }, style)
   return (
     <td
       data-slot="table-cell"
+      data-pinned={pinnedProps["data-pinned"]}
       className={cn(
         "p-2 align-middle whitespace-nowrap [&:has([role=checkbox])]:pr-0 [&>[role=checkbox]]:translate-y-[2px]",
+        pinnedProps.className,
         className
       )}
+      style={pinnedProps.style}
       {...props}
     />
   )
@@ -6,6 +6,13 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Tooltip,
   TooltipContent,
@@ -14,16 +21,21 @@ import {
 } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
 import {
+  FileDown,
   FileSpreadsheet,
   FileText,
+  FileType,
   Filter,
+  Printer,
   RotateCcw,
   Search,
   X,
 } from "lucide-react";
 import type { ReactNode, Ref } from "react";
 
-interface AppDataTableProps {
+export type ExportScope = "page" | "all" | "selected";
+
+export interface AppDataTableProps {
   searchValue?: string;
   searchPlaceholder?: string;
   onSearchChange?: (value: string) => void;
@@ -33,16 +45,38 @@ interface AppDataTableProps {
   filtersOpen?: boolean;
   onToggleFilters?: () => void;
   hasActiveFilters?: boolean;
+  // Shown on the "Filtros" button; takes precedence over `hasActiveFilters`
+  activeFiltersCount?: number;
   filtersContent?: ReactNode;
+  // Active filters summary below the toolbar, e.g. `<DataTableFilterChips />`
+  filterChips?: ReactNode;
   showResetSorting?: boolean;
   onResetSorting?: () => void;
   actions?: ReactNode;
   toolbarExtra?: ReactNode;
+  // Saved views menu, e.g. `<DataTableSavedViews table={table} tableId="..." />`
+  viewsMenu?: ReactNode;
+  // "Columnas" menu, e.g. `<DataTableColumnsMenu table={table} />`
+  columnsMenu?: ReactNode;
   tip?: ReactNode;
   exportActions?: {
     onExportExcel?: () => void;
     onExportPdf?: () => void;
+    onExportCsv?: () => void;
+    onExportTsv?: () => void;
+    // Opens the browser print dialog, e.g. with `printExportTable`
+    onPrint?: () => void;
     isExporting?: boolean;
+    // Lets the user pick between the current page and every matching row
+    scope?: {
+      value: ExportScope;
+      onChange: (value: ExportScope) => void;
+      // Adds a "Seleccionados" option while rows are selected
+      selectedCount?: number;
+      // Hides "Todos los resultados", e.g. a server-paginated table that
+      // can't fetch the other pages
+      allowAll?: boolean;
+    };
   };
   children: ReactNode;
 }
@@ -57,16 +91,26 @@ export function AppDataTable({
   filtersOpen,
   onToggleFilters,
   hasActiveFilters,
+  activeFiltersCount,
   filtersContent,
+  filterChips,
   showResetSorting,
   onResetSorting,
   actions,
   toolbarExtra,
+  viewsMenu,
+  columnsMenu,
   tip,
   exportActions,
   children,
 }: AppDataTableProps) {
   const showFilters = !!filtersContent;
+  const hasExportActions =
+    !!exportActions?.onExportExcel ||
+    !!exportActions?.onExportPdf ||
+    !!exportActions?.onExportCsv ||
+    !!exportActions?.onExportTsv ||
+    !!exportActions?.onPrint;
 
   return (
     <div className="space-y-4">
@@ -103,10 +147,17 @@ export function AppDataTable({
           >
             <Filter className="mr-2 h-4 w-4" />
             Filtros
-            {hasActiveFilters && (
+            {activeFiltersCount ? (
               <Badge variant="secondary" className="ml-2">
-                !
+                {activeFiltersCount}
               </Badge>
+            ) : (
+              activeFiltersCount === undefined &&
+              hasActiveFilters && (
+                <Badge variant="secondary" className="ml-2">
+                  !
+                </Badge>
+              )
             )}
           </Button>
         )}
@@ -119,11 +170,15 @@ export function AppDataTable({
         )}
 
         <div className="ml-auto flex items-center gap-2">
+          {viewsMenu}
+          {columnsMenu}
           {toolbarExtra}
           {actions}
         </div>
       </div>
 
+      {filterChips}
+
       {showFilters && (
         <Accordion
           type="single"
@@ -136,11 +191,35 @@ export function AppDataTable({
         </Accordion>
       )}
 
-      {(tip || exportActions?.onExportExcel || exportActions?.onExportPdf) && (
+      {(tip || hasExportActions) && (
         <div className="flex flex-col md:flex-row justify-between items-center gap-4">
           <div className="text-xs text-muted-foreground">{tip}</div>
 
           <div className="flex items-center gap-2">
+            {hasExportActions && exportActions?.scope && (
+              <Select
+                value={exportActions.scope.value}
+                onValueChange={(value) =>
+                  exportActions.scope?.onChange(value as ExportScope)
+                }
+                disabled={exportActions.isExporting}
+              >
+                <SelectTrigger size="sm" className="w-[170px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[200]">
+                  <SelectItem value="page">Página actual</SelectItem>
+                  {exportActions.scope.allowAll !== false && (
+                    <SelectItem value="all">Todos los resultados</SelectItem>
+                  )}
+                  {!!exportActions.scope.selectedCount && (
+                    <SelectItem value="selected">
+                      Seleccionados ({exportActions.scope.selectedCount})
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            )}
             <TooltipProvider>
               {exportActions?.onExportExcel && (
                 <Tooltip>
@@ -180,6 +259,63 @@ export function AppDataTable({
                   </TooltipContent>
                 </Tooltip>
               )}
+              {exportActions?.onExportCsv && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={exportActions.onExportCsv}
+                      disabled={exportActions.isExporting}
+                      className="text-blue-700 border-blue-200 hover:bg-blue-50 gap-2"
+                    >
+                      <FileDown className="h-4 w-4" />
+                      <span className="hidden sm:inline">CSV</span>
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Exportar a CSV</p>
+                  </TooltipContent>
+                </Tooltip>
+              )}
+              {exportActions?.onExportTsv && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={exportActions.onExportTsv}
+                      disabled={exportActions.isExporting}
+                      className="text-slate-700 border-slate-200 hover:bg-slate-50 gap-2"
+                    >
+                      <FileType className="h-4 w-4" />
+                      <span className="hidden sm:inline">TSV</span>
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Exportar a TSV</p>
+                  </TooltipContent>
+                </Tooltip>
+              )}
+              {exportActions?.onPrint && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={exportActions.onPrint}
+                      disabled={exportActions.isExporting}
+                      className="text-gray-700 border-gray-200 hover:bg-gray-50 gap-2"
+                    >
+                      <Printer className="h-4 w-4" />
+                      <span className="hidden sm:inline">Imprimir</span>
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Imprimir</p>
+                  </TooltipContent>
+                </Tooltip>
+              )}
             </TooltipProvider>
           </div>
         </div>
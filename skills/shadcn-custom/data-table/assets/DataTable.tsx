@@ -0,0 +1,1484 @@
+import {
+  AppDataTable,
+  type AppDataTableProps,
+  type ExportScope,
+} from "@/components/custom/AppDataTable";
+import {
+  DataTableBulkActions,
+  type DataTableBulkAction,
+  type DataTableBulkSelection,
+} from "@/components/custom/DataTableBulkActions";
+import { DataTableColumnsMenu } from "@/components/custom/DataTableColumnsMenu";
+import {
+  DataTableEditableCell,
+  DataTableEditBar,
+} from "@/components/custom/DataTableEditing";
+import {
+  DataTableFilterChips,
+  DataTableFilters,
+} from "@/components/custom/DataTableFilters";
+import { DataTablePagination } from "@/components/custom/DataTablePagination";
+import { DataTableQueryBuilder } from "@/components/custom/DataTableQueryBuilder";
+import { DataTableSavedViews } from "@/components/custom/DataTableSavedViews";
+import {
+  DataTableVirtualBody,
+  type DataTableVirtualOptions,
+} from "@/components/custom/DataTableVirtualBody";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useTableRowNavigation } from "@/hooks/useTableRowNavigation";
+import {
+  exportRowsInWorker,
+  exportToPdf,
+  printExportTable,
+  rowsInChunks,
+  type ExportAggregate,
+  type ExportSettings,
+  type ReportTemplate,
+} from "@/lib/export.utils";
+import {
+  countDraftCells,
+  countDraftErrors,
+  getRowChanges,
+  setDraftValue,
+  type CellDrafts,
+  type RowChange,
+  type TableEditing,
+} from "@/lib/table-editing";
+import {
+  getColumnLabel,
+  getTableExportColumns,
+  getTableExportRows,
+} from "@/lib/table-export";
+import {
+  countActiveFilters,
+  getFilterValues,
+  setFilterValues,
+  withFilterFns,
+  type FilterField,
+  type FilterValues,
+} from "@/lib/table-filters";
+import {
+  createSearchFilterFn,
+  getSearchRankedRowModel,
+  type TableSearchOptions,
+} from "@/lib/table-search";
+import {
+  countQueryConditions,
+  getQueryColumn,
+  getQueryFields,
+  getQueryFromFilters,
+  QUERY_COLUMN_ID,
+  type QueryField,
+  type QueryGroup,
+} from "@/lib/table-query";
+import type { SavedViewsBackend } from "@/lib/table-saved-views";
+import {
+  applyTableViewState,
+  loadTableViewState,
+  saveTableViewState,
+  type TableStatePersistOptions,
+  type TableViewState,
+} from "@/lib/table-view-state";
+import { cn } from "@/lib/utils";
+import {
+  flexRender,
+  functionalUpdate,
+  getCoreRowModel,
+  getExpandedRowModel,
+  getFilteredRowModel,
+  getGroupedRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  useReactTable,
+  type BuiltInAggregationFn,
+  type Cell,
+  type Column,
+  type ColumnDef,
+  type ColumnFiltersState,
+  type ColumnOrderState,
+  type ColumnPinningState,
+  type ColumnSizingState,
+  type ExpandedState,
+  type GroupingState,
+  type PaginationState,
+  type Row,
+  type RowSelectionState,
+  type SortingState,
+  type Table as TanStackTable,
+  type Updater,
+  type VisibilityState,
+} from "@tanstack/react-table";
+import { ChevronRight } from "lucide-react";
+import {
+  Fragment,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ComponentProps,
+  type ReactNode,
+  type Ref,
+} from "react";
+import { toast } from "sonner";
+
+export type DataTableExportFormat = "excel" | "pdf" | "csv" | "tsv" | "print";
+
+// What the server needs to return every row the user is looking at
+export interface DataTableQuery {
+  globalFilter: string;
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
+}
+
+export interface DataTableExportOptions<TData> {
+  title: string;
+  filename: string;
+  generatedBy: string;
+  // Buttons to show. Defaults to Excel, PDF, CSV and print.
+  formats?: DataTableExportFormat[];
+  // Server mode: enables "Todos los resultados" by fetching every match.
+  // Return the rows, or `fetchPages(...)` to fetch page by page; `signal`
+  // aborts when the user cancels the export.
+  fetchAll?: (
+    query: DataTableQuery,
+    signal: AbortSignal,
+  ) => Promise<TData[]> | AsyncIterable<TData[]>;
+  subtitle?: string;
+  filterSummary?: string[];
+  template?: ReportTemplate;
+  settings?: ExportSettings;
+}
+
+// `true` hands pagination, sorting and filtering to the server; pass an
+// object to pick which ones.
+export type DataTableManualMode =
+  boolean | { pagination?: boolean; sorting?: boolean; filtering?: boolean };
+
+export interface DataTableProps<TData> extends Omit<
+  AppDataTableProps,
+  | "searchValue"
+  | "onSearchChange"
+  | "onClearSearch"
+  | "showResetSorting"
+  | "onResetSorting"
+  | "exportActions"
+  | "columnsMenu"
+  | "viewsMenu"
+  | "children"
+> {
+  columns: ColumnDef<TData>[];
+  data: TData[];
+  // Filter panel built from a schema; values live in `columnFilters`
+  filters?: readonly FilterField[];
+  // AND/OR condition groups over the columns, stored in `columnFilters`
+  enableQueryBuilder?: boolean;
+  isLoading?: boolean;
+  getRowId?: (row: TData, index: number) => string;
+  enableSorting?: boolean;
+  // Global search box (and client-side filtering outside manual mode)
+  enableFiltering?: boolean;
+  // Client-side search: accent-insensitive, every word must match. `fuzzy`
+  // tolerates typos and `rank` orders results by relevance.
+  searchOptions?: TableSearchOptions;
+  enablePagination?: boolean;
+  // "Columnas" menu to hide and reorder columns (also applied to exports)
+  enableColumnOptions?: boolean;
+  // Drag the header edges to resize columns (double click restores the width)
+  enableColumnResizing?: boolean;
+  // "Fijar a la izquierda / derecha" in DataTableColumnHeader menus
+  enableColumnPinning?: boolean;
+  // "Agrupar por esta columna" in DataTableColumnHeader menus. Group rows
+  // collapse their rows and show the count and the `meta.export.aggregate`
+  // of each column (or its own `aggregationFn` / `aggregatedCell`).
+  enableGrouping?: boolean;
+  // Content shown under a row when it is expanded from its chevron, e.g. the
+  // line items of an order. Not available with `virtualize`.
+  renderRowDetail?: (row: TData) => ReactNode;
+  // Renders only the rows in view instead of paginating (client mode). The
+  // table scrolls inside a max-h-[70vh] box; change it through `className`.
+  virtualize?: boolean | DataTableVirtualOptions;
+  // "single" selects on row click, "multiple" adds a checkbox column and a
+  // bar with the selection count
+  selection?: "single" | "multiple";
+  // Actions in the selection bar (delete, change status, ...). Server mode
+  // needs a stable `getRowId` to keep the selection across pages.
+  bulkActions?: DataTableBulkAction<TData>[];
+  // Turns columns with `meta.edit` into inline editors and saves the pending
+  // changes. Rows show the new values while it runs and roll back if it
+  // throws. Needs `getRowId` when rows can move (sorting, server pages).
+  onRowsCommit?: (changes: RowChange<TData>[]) => void | Promise<void>;
+  manual?: DataTableManualMode;
+  // Manual pagination: total rows on the server
+  rowCount?: number;
+  defaultPageSize?: number;
+  // Columns hidden until the user shows them; "restore defaults" returns here
+  defaultColumnVisibility?: VisibilityState;
+  // Columns pinned until the user changes it, e.g.
+  // { left: ["id"], right: ["actions"] }
+  defaultColumnPinning?: ColumnPinningState;
+  // Columns grouped until the user changes it, outermost first
+  defaultGrouping?: GroupingState;
+  // Controlled state. Each one falls back to internal state when omitted.
+  sorting?: SortingState;
+  onSortingChange?: (sorting: SortingState) => void;
+  globalFilter?: string;
+  onGlobalFilterChange?: (globalFilter: string) => void;
+  columnFilters?: ColumnFiltersState;
+  onColumnFiltersChange?: (columnFilters: ColumnFiltersState) => void;
+  columnVisibility?: VisibilityState;
+  onColumnVisibilityChange?: (columnVisibility: VisibilityState) => void;
+  columnOrder?: ColumnOrderState;
+  onColumnOrderChange?: (columnOrder: ColumnOrderState) => void;
+  columnSizing?: ColumnSizingState;
+  onColumnSizingChange?: (columnSizing: ColumnSizingState) => void;
+  columnPinning?: ColumnPinningState;
+  onColumnPinningChange?: (columnPinning: ColumnPinningState) => void;
+  grouping?: GroupingState;
+  onGroupingChange?: (grouping: GroupingState) => void;
+  pagination?: PaginationState;
+  onPaginationChange?: (pagination: PaginationState) => void;
+  rowSelection?: RowSelectionState;
+  onRowSelectionChange?: (rowSelection: RowSelectionState) => void;
+  exportOptions?: DataTableExportOptions<TData>;
+  // Saves sorting, filters, columns and page size under this id and restores
+  // them on mount
+  persistKey?: string;
+  persistOptions?: TableStatePersistOptions;
+  // Named views menu; `tableId` scopes the views in the backend
+  savedViews?: { tableId: string; backend?: SavedViewsBackend };
+  onRowClick?: (row: TData) => void;
+  onRowDoubleClick?: (row: TData) => void;
+  // Enter on a focused row; defaults to what a click does
+  onRowActivate?: (row: TData) => void;
+  emptyMessage?: ReactNode;
+  entityName?: string;
+  showPageSizeOptions?: boolean;
+  className?: string;
+  // Access to the table instance, e.g. to read the selected rows
+  tableRef?: Ref<TanStackTable<TData>>;
+}
+
+const DEFAULT_EXPORT_FORMATS: DataTableExportFormat[] = [
+  "excel",
+  "pdf",
+  "csv",
+  "print",
+];
+
+const resolveManualMode = (manual: DataTableManualMode = false) =>
+  typeof manual === "boolean"
+    ? { pagination: manual, sorting: manual, filtering: manual }
+    : { pagination: false, sorting: false, filtering: false, ...manual };
+
+// Internal state unless the consumer controls it through `value`
+function useTableState<TValue>(
+  value: TValue | undefined,
+  onChange: ((value: TValue) => void) | undefined,
+  initialValue: TValue,
+) {
+  const [internalValue, setInternalValue] = useState(initialValue);
+  const state = value ?? internalValue;
+
+  const setState = (updater: Updater<TValue>) => {
+    const nextValue =
+      typeof updater === "function"
+        ? (updater as (old: TValue) => TValue)(state)
+        : updater;
+    if (value === undefined) setInternalValue(nextValue);
+    onChange?.(nextValue);
+  };
+
+  return [state, setState] as const;
+}
+
+// Restores the saved view once per key, then saves every change (debounced)
+function useTableViewPersistence<TData>(
+  table: TanStackTable<TData>,
+  persistKey: string | undefined,
+  persistOptions: TableStatePersistOptions | undefined,
+) {
+  const [restoredKey, setRestoredKey] = useState<string>();
+  const {
+    sorting,
+    columnFilters,
+    globalFilter,
+    columnVisibility,
+    columnOrder,
+    columnSizing,
+    columnPinning,
+    grouping,
+    pagination,
+  } = table.getState();
+  const pageSize = pagination.pageSize;
+
+  const viewState = useMemo<TableViewState>(
+    () => ({
+      sorting,
+      columnFilters,
+      globalFilter,
+      columnVisibility,
+      columnOrder,
+      columnSizing,
+      columnPinning,
+      grouping,
+      pageSize,
+    }),
+    [
+      sorting,
+      columnFilters,
+      globalFilter,
+      columnVisibility,
+      columnOrder,
+      columnSizing,
+      columnPinning,
+      grouping,
+      pageSize,
+    ],
+  );
+
+  // Options are read when restoring or saving; a new object each render
+  // shouldn't restore the view again
+  const persistOptionsRef = useRef(persistOptions);
+  useLayoutEffect(() => {
+    persistOptionsRef.current = persistOptions;
+  });
+
+  // Layout effect so state from a sync storage is in place before paint
+  useLayoutEffect(() => {
+    if (!persistKey) return;
+    let cancelled = false;
+
+    const restore = (state: Partial<TableViewState> | null) => {
+      if (cancelled) return;
+      if (state) applyTableViewState(table, state);
+      setRestoredKey(persistKey);
+    };
+
+    const columnIds = table.getAllLeafColumns().map((column) => column.id);
+    const saved = loadTableViewState(
+      persistKey,
+      columnIds,
+      persistOptionsRef.current,
+    );
+    if (saved instanceof Promise) saved.then(restore);
+    else restore(saved);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [persistKey, table]);
+
+  useEffect(() => {
+    // Saving before an async restore finishes would overwrite the saved view
+    if (!persistKey || restoredKey !== persistKey) return;
+    const timeout = setTimeout(
+      () =>
+        saveTableViewState(persistKey, viewState, persistOptionsRef.current),
+      300,
+    );
+    return () => clearTimeout(timeout);
+  }, [persistKey, restoredKey, viewState]);
+}
+
+interface OptimisticRow<TData> {
+  row: TData;
+  // Set once the save succeeds: the `data` it was made against. Any newer
+  // `data` (even one refetched inside `onRowsCommit`) replaces the row.
+  committedData?: TData[];
+}
+
+// Rows still saving always win; saved ones until `data` is refreshed
+const isOptimisticRow = <TData,>(
+  entry: OptimisticRow<TData> | undefined,
+  data: TData[],
+): entry is OptimisticRow<TData> =>
+  !!entry && (!entry.committedData || entry.committedData === data);
+
+// Inline editing: drafts until saved, then the saved rows shown optimistically
+// until `data` catches up, or rolled back when saving fails
+function useTableEditing<TData>(
+  data: TData[],
+  getRowId: ((row: TData, index: number) => string) | undefined,
+  onRowsCommit: DataTableProps<TData>["onRowsCommit"],
+) {
+  const [drafts, setDrafts] = useState<CellDrafts<TData>>({});
+  const [optimisticRows, setOptimisticRows] = useState<
+    Record<string, OptimisticRow<TData>>
+  >({});
+  const [isSaving, setIsSaving] = useState(false);
+  // Latest `data` when a save settles, which may be several renders later
+  const dataRef = useRef(data);
+  useLayoutEffect(() => {
+    dataRef.current = data;
+  });
+
+  const rows = useMemo(() => {
+    if (!Object.keys(optimisticRows).length) return data;
+    return data.map((row, index) => {
+      const entry =
+        optimisticRows[getRowId ? getRowId(row, index) : String(index)];
+      return isOptimisticRow(entry, data) ? entry.row : row;
+    });
+  }, [data, optimisticRows, getRowId]);
+
+  const editing: TableEditing<TData> = {
+    drafts,
+    isSaving,
+    setCellValue: (row, columnId, value, savedValue) =>
+      setDrafts((current) =>
+        setDraftValue(current, row, columnId, value, savedValue),
+      ),
+  };
+
+  const save = async (table: TanStackTable<TData>) => {
+    const changes = getRowChanges(table, drafts);
+    if (!changes.length || !onRowsCommit) return;
+    const changedIds = new Set(changes.map(({ rowId }) => rowId));
+
+    // Only touches the rows of this save, so other saves in flight keep theirs
+    const updateRows = (
+      update: (
+        rowId: string,
+        entry: OptimisticRow<TData>,
+      ) => OptimisticRow<TData> | null,
+    ) =>
+      setOptimisticRows((current) =>
+        Object.fromEntries(
+          Object.entries(current).flatMap(([rowId, entry]) => {
+            // Saved rows the new `data` already replaced are dropped as well
+            if (!isOptimisticRow(entry, dataRef.current)) return [];
+            const next = changedIds.has(rowId) ? update(rowId, entry) : entry;
+            return next ? [[rowId, next]] : [];
+          }),
+        ),
+      );
+
+    setDrafts({});
+    setOptimisticRows((current) => ({
+      ...current,
+      ...Object.fromEntries(changes.map(({ rowId, row }) => [rowId, { row }])),
+    }));
+    setIsSaving(true);
+    try {
+      await onRowsCommit(changes);
+      updateRows((_, entry) => ({ ...entry, committedData: data }));
+      toast.success("Cambios guardados correctamente");
+    } catch {
+      // Back to the saved rows; the edits return as drafts to retry
+      updateRows(() => null);
+      setDrafts((current) => ({
+        ...Object.fromEntries(
+          changes.map(({ rowId, original, values }) => [
+            rowId,
+            { original, values },
+          ]),
+        ),
+        ...current,
+      }));
+      toast.error("Error al guardar los cambios");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return { rows, editing, save, discard: () => setDrafts({}) };
+}
+
+// `aria-sort` of a sortable header cell
+// Rows from `fetchAll`, reporting the count after each page
+const collectFetchedRows = async <TData,>(
+  source: Promise<TData[]> | AsyncIterable<TData[]>,
+  signal: AbortSignal,
+  onPage: (count: number) => void,
+) => {
+  let rows: TData[] = [];
+  if (Symbol.asyncIterator in source) {
+    for await (const page of source) {
+      signal.throwIfAborted();
+      rows = rows.concat(page);
+      onPage(rows.length);
+    }
+  } else {
+    rows = await source;
+  }
+  // Cancelled even if `fetchAll` ignored the signal
+  signal.throwIfAborted();
+  return rows;
+};
+
+const getAriaSort = <TData,>(column: Column<TData, unknown>) => {
+  if (!column.getCanSort()) return undefined;
+  const sorted = column.getIsSorted();
+  return sorted === "asc"
+    ? "ascending"
+    : sorted === "desc"
+      ? "descending"
+      : "none";
+};
+
+// Screen reader messages for sorting and page changes
+const getSortingAnnouncement = <TData,>(
+  table: TanStackTable<TData>,
+  sorting: SortingState,
+) =>
+  sorting.length
+    ? `Ordenado por ${sorting
+        .map(({ id, desc }) => {
+          const column = table.getColumn(id);
+          const label = column ? getColumnLabel(column) : id;
+          return `${label}, ${desc ? "descendente" : "ascendente"}`;
+        })
+        .join("; ")}`
+    : "Orden restablecido";
+
+const getPageAnnouncement = <TData,>(
+  table: TanStackTable<TData>,
+  { pageIndex, pageSize }: PaginationState,
+) =>
+  `Página ${pageIndex + 1} de ${Math.max(1, Math.ceil(table.getRowCount() / pageSize))}`;
+
+// Sticky position of a pinned column, for TableHead / TableCell
+const getPinnedProps = <TData,>(column: Column<TData, unknown>) => {
+  const pinned = column.getIsPinned();
+  if (!pinned) return { pinned };
+  return {
+    pinned,
+    pinOffset:
+      pinned === "left" ? column.getStart("left") : column.getAfter("right"),
+    pinEdge:
+      pinned === "left"
+        ? column.getIsLastColumn("left")
+        : column.getIsFirstColumn("right"),
+  };
+};
+
+// Sticky cells need an opaque background over scrolled content; these match
+// the translucent row backgrounds of `renderRow` blended over it
+const getPinnedRowClassName = <TData,>(row: Row<TData>) =>
+  cn(
+    "group-hover/row:bg-[color-mix(in_oklab,var(--color-gray-50)_50%,var(--color-background))]",
+    "group-data-[state=selected]/row:bg-[color-mix(in_oklab,var(--color-primary)_5%,var(--color-background))]",
+    row.getIsGrouped() &&
+      "bg-gray-50 group-hover/row:bg-[color-mix(in_oklab,var(--color-gray-100)_70%,var(--color-background))]",
+  );
+
+const AGGREGATION_FNS: Record<ExportAggregate, BuiltInAggregationFn> = {
+  sum: "sum",
+  avg: "mean",
+  min: "min",
+  max: "max",
+  count: "count",
+};
+
+// Group rows aggregate what the export footer totals. Other columns stay
+// empty there instead of TanStack's "auto" sum of every number.
+const withGroupAggregates = <TData,>(
+  column: ColumnDef<TData>,
+): ColumnDef<TData> => {
+  const aggregate = column.meta?.export?.aggregate;
+  return {
+    ...column,
+    aggregationFn:
+      column.aggregationFn ??
+      (aggregate ? AGGREGATION_FNS[aggregate] : () => undefined),
+    aggregatedCell:
+      column.aggregatedCell ??
+      (({ getValue, row }) => {
+        const value = getValue();
+        if (value === undefined || value === null) return null;
+        const formatter = column.meta?.export?.formatter;
+        if (formatter && aggregate !== "count") {
+          return formatter(value, row.original);
+        }
+        return typeof value === "number"
+          ? value.toLocaleString()
+          : String(value);
+      }),
+  };
+};
+
+const getExpandColumn = <TData,>(): ColumnDef<TData> => ({
+  id: "expand",
+  header: () => <span className="sr-only">Detalle</span>,
+  cell: ({ row }) =>
+    row.getIsGrouped() ? null : (
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-7"
+        aria-expanded={row.getIsExpanded()}
+        aria-label={row.getIsExpanded() ? "Ocultar detalle" : "Ver detalle"}
+        onClick={(e) => {
+          e.stopPropagation();
+          row.toggleExpanded();
+        }}
+      >
+        <ChevronRight
+          className={cn(
+            "size-4 transition-transform",
+            row.getIsExpanded() && "rotate-90",
+          )}
+        />
+      </Button>
+    ),
+  size: 40,
+  enableSorting: false,
+  enableHiding: false,
+  enableResizing: false,
+  enableGrouping: false,
+  meta: { exportable: false },
+});
+
+const getSelectionColumn = <TData,>(): ColumnDef<TData> => ({
+  id: "select",
+  header: ({ table }) => (
+    <Checkbox
+      checked={
+        table.getIsAllPageRowsSelected() ||
+        (table.getIsSomePageRowsSelected() && "indeterminate")
+      }
+      onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+      aria-label="Seleccionar página"
+    />
+  ),
+  cell: ({ row }) => (
+    <Checkbox
+      checked={row.getIsSelected()}
+      disabled={!row.getCanSelect()}
+      onCheckedChange={(value) => row.toggleSelected(!!value)}
+      onClick={(e) => e.stopPropagation()}
+      aria-label="Seleccionar fila"
+    />
+  ),
+  size: 40,
+  enableSorting: false,
+  enableHiding: false,
+  enableResizing: false,
+  enableGrouping: false,
+  meta: { exportable: false },
+});
+
+export function DataTable<TData>({
+  columns,
+  data,
+  filters,
+  enableQueryBuilder = false,
+  isLoading,
+  getRowId,
+  enableSorting = true,
+  enableFiltering = true,
+  searchOptions,
+  enablePagination = true,
+  enableColumnOptions = true,
+  enableColumnResizing = false,
+  enableColumnPinning = true,
+  enableGrouping = false,
+  renderRowDetail,
+  virtualize,
+  selection,
+  bulkActions = [],
+  onRowsCommit,
+  manual,
+  rowCount,
+  defaultPageSize = 10,
+  defaultColumnVisibility = {},
+  defaultColumnPinning = {},
+  defaultGrouping = [],
+  sorting: sortingProp,
+  onSortingChange,
+  globalFilter: globalFilterProp,
+  onGlobalFilterChange,
+  columnFilters: columnFiltersProp,
+  onColumnFiltersChange,
+  columnVisibility: columnVisibilityProp,
+  onColumnVisibilityChange,
+  columnOrder: columnOrderProp,
+  onColumnOrderChange,
+  columnSizing: columnSizingProp,
+  onColumnSizingChange,
+  columnPinning: columnPinningProp,
+  onColumnPinningChange,
+  grouping: groupingProp,
+  onGroupingChange,
+  pagination: paginationProp,
+  onPaginationChange,
+  rowSelection: rowSelectionProp,
+  onRowSelectionChange,
+  exportOptions,
+  persistKey,
+  persistOptions,
+  savedViews,
+  onRowClick,
+  onRowDoubleClick,
+  onRowActivate,
+  emptyMessage = "No hay resultados.",
+  entityName,
+  showPageSizeOptions = true,
+  className,
+  tableRef,
+  ...toolbarProps
+}: DataTableProps<TData>) {
+  const manualMode = resolveManualMode(manual);
+  const [sorting, setSorting] = useTableState(sortingProp, onSortingChange, []);
+  const [globalFilter, setGlobalFilter] = useTableState(
+    globalFilterProp,
+    onGlobalFilterChange,
+    "",
+  );
+  const [columnFilters, setColumnFilters] = useTableState(
+    columnFiltersProp,
+    onColumnFiltersChange,
+    [],
+  );
+  const [columnVisibility, setColumnVisibility] = useTableState(
+    columnVisibilityProp,
+    onColumnVisibilityChange,
+    defaultColumnVisibility,
+  );
+  const [columnOrder, setColumnOrder] = useTableState<ColumnOrderState>(
+    columnOrderProp,
+    onColumnOrderChange,
+    [],
+  );
+  const [columnSizing, setColumnSizing] = useTableState(
+    columnSizingProp,
+    onColumnSizingChange,
+    {},
+  );
+  const [columnPinning, setColumnPinning] = useTableState(
+    columnPinningProp,
+    onColumnPinningChange,
+    defaultColumnPinning,
+  );
+  const [grouping, setGrouping] = useTableState(
+    groupingProp,
+    onGroupingChange,
+    defaultGrouping,
+  );
+  // Group rows start collapsed
+  const [expanded, setExpanded] = useState<ExpandedState>({});
+  const [pagination, setPagination] = useTableState(
+    paginationProp,
+    onPaginationChange,
+    { pageIndex: 0, pageSize: defaultPageSize },
+  );
+  const [rowSelection, setRowSelection] = useTableState(
+    rowSelectionProp,
+    onRowSelectionChange,
+    {},
+  );
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportScope, setExportScope] = useState<ExportScope>("page");
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  // Server mode: every row matching the query, loaded or not
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
+  const selectedRowsRef = useRef(new Map<string, TData>());
+  const queryFieldsRef = useRef<QueryField[]>([]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const paginate = enablePagination && !virtualize;
+  // The virtualizer measures one element per row, so no detail rows there
+  const showRowDetail = !!renderRowDetail && !virtualize;
+
+  const isEditable = !!onRowsCommit;
+  const tableColumns = useMemo(() => {
+    const filteredColumns = filters ? withFilterFns(columns, filters) : columns;
+    // Columns with `meta.edit` render an editor when saving is possible
+    const editableColumns = isEditable
+      ? filteredColumns.map((column): ColumnDef<TData> =>
+          column.meta?.edit
+            ? {
+                ...column,
+                cell: (context) => <DataTableEditableCell {...context} />,
+              }
+            : column,
+        )
+      : filteredColumns;
+    const groupableColumns = enableGrouping
+      ? editableColumns.map(withGroupAggregates)
+      : editableColumns;
+    return [
+      ...(selection === "multiple" ? [getSelectionColumn<TData>()] : []),
+      ...(showRowDetail ? [getExpandColumn<TData>()] : []),
+      ...groupableColumns,
+      ...(enableQueryBuilder
+        ? [getQueryColumn<TData>(() => queryFieldsRef.current)]
+        : []),
+    ];
+  }, [
+    selection,
+    columns,
+    filters,
+    enableQueryBuilder,
+    isEditable,
+    enableGrouping,
+    showRowDetail,
+  ]);
+
+  const [announcement, setAnnouncement] = useState("");
+  // `table` is created below; these only run once it exists
+  const handleSortingChange = (updater: Updater<SortingState>) => {
+    const next = functionalUpdate(updater, sorting);
+    setSorting(next);
+    setAnnouncement(getSortingAnnouncement(table, next));
+  };
+  const handlePaginationChange = (updater: Updater<PaginationState>) => {
+    const next = functionalUpdate(updater, pagination);
+    setPagination(next);
+    if (
+      next.pageIndex !== pagination.pageIndex ||
+      next.pageSize !== pagination.pageSize
+    ) {
+      setAnnouncement(getPageAnnouncement(table, next));
+    }
+  };
+
+  const handleRowSelectionChange = (updater: Updater<RowSelectionState>) => {
+    const next =
+      typeof updater === "function" ? updater(rowSelection) : updater;
+    // Unchecking any row ends "all matching"; checking more rows doesn't
+    if (Object.keys(rowSelection).some((id) => rowSelection[id] && !next[id])) {
+      setAllMatchingSelected(false);
+    }
+    setRowSelection(next);
+  };
+
+  const fuzzySearch = !!searchOptions?.fuzzy;
+  const globalFilterFn = useMemo(
+    () => createSearchFilterFn<TData>({ fuzzy: fuzzySearch }),
+    [fuzzySearch],
+  );
+
+  const editingState = useTableEditing(data, getRowId, onRowsCommit);
+
+  const table = useReactTable({
+    data: editingState.rows,
+    columns: tableColumns,
+    meta: { editing: editingState.editing },
+    getRowId,
+    rowCount: manualMode.pagination ? rowCount : undefined,
+    initialState: {
+      columnVisibility: defaultColumnVisibility,
+      columnPinning: defaultColumnPinning,
+      grouping: defaultGrouping,
+    },
+    state: {
+      sorting,
+      globalFilter,
+      columnFilters,
+      // The query column only carries the filter; it is never shown
+      columnVisibility: enableQueryBuilder
+        ? { ...columnVisibility, [QUERY_COLUMN_ID]: false }
+        : columnVisibility,
+      columnOrder,
+      columnSizing,
+      columnPinning,
+      grouping,
+      expanded,
+      pagination,
+      rowSelection,
+    },
+    enableSorting,
+    enableMultiSort: true,
+    enableFilters: enableFiltering,
+    globalFilterFn,
+    enableColumnResizing,
+    columnResizeMode: "onChange",
+    enableColumnPinning,
+    enableGrouping,
+    getRowCanExpand: (row) => row.subRows.length > 0 || showRowDetail,
+    enableRowSelection: !!selection,
+    enableMultiRowSelection: selection === "multiple",
+    manualPagination: manualMode.pagination,
+    manualSorting: manualMode.sorting,
+    manualFiltering: manualMode.filtering,
+    // Server data changes under the same page; keep the user where they are
+    autoResetPageIndex: false,
+    autoResetExpanded: false,
+    onSortingChange: handleSortingChange,
+    onGlobalFilterChange: setGlobalFilter,
+    onColumnFiltersChange: setColumnFilters,
+    onColumnVisibilityChange: setColumnVisibility,
+    onColumnOrderChange: setColumnOrder,
+    onColumnSizingChange: setColumnSizing,
+    onColumnPinningChange: setColumnPinning,
+    onGroupingChange: setGrouping,
+    onExpandedChange: setExpanded,
+    onPaginationChange: handlePaginationChange,
+    onRowSelectionChange: handleRowSelectionChange,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: searchOptions?.rank
+      ? getSearchRankedRowModel()
+      : getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    getGroupedRowModel: enableGrouping ? getGroupedRowModel() : undefined,
+    getExpandedRowModel: getExpandedRowModel(),
+    getPaginationRowModel: paginate ? getPaginationRowModel() : undefined,
+  });
+
+  useImperativeHandle(tableRef, () => table, [table]);
+  useTableViewPersistence(table, persistKey, persistOptions);
+
+  // A new search or filter changes what "all matching" means
+  const filtersKey = JSON.stringify(columnFilters);
+  useEffect(() => setAllMatchingSelected(false), [globalFilter, filtersKey]);
+
+  // Keep each page loaded while "all matching" is on checked. The row model
+  // is memoized, so it only changes with a new page of `data`.
+  const pageRows = table.getRowModel().rows;
+  useEffect(() => {
+    if (!allMatchingSelected) return;
+    table.setRowSelection((current) => ({
+      ...current,
+      ...Object.fromEntries(pageRows.map((row) => [row.id, true])),
+    }));
+  }, [table, allMatchingSelected, pageRows]);
+
+  // Selected rows survive page changes in server mode, where `data` only
+  // holds the current page
+  const coreRows = table.getCoreRowModel().flatRows;
+  const selectedRows = useMemo(() => {
+    const cache = selectedRowsRef.current;
+    coreRows.forEach((row) => {
+      if (rowSelection[row.id]) cache.set(row.id, row.original);
+    });
+    cache.forEach((_, id) => {
+      if (!rowSelection[id]) cache.delete(id);
+    });
+    return [...cache.values()];
+  }, [coreRows, rowSelection]);
+
+  const matchingCount = manualMode.pagination
+    ? (rowCount ?? 0)
+    : table.getFilteredRowModel().rows.length;
+  const bulkSelection: DataTableBulkSelection<TData> = {
+    rows: selectedRows,
+    count: allMatchingSelected ? matchingCount : selectedRows.length,
+    allMatching: allMatchingSelected,
+    query: { globalFilter, sorting, columnFilters },
+  };
+
+  const handleSelectAllMatching = () => {
+    if (manualMode.pagination) {
+      table.toggleAllPageRowsSelected(true);
+      setAllMatchingSelected(true);
+    } else {
+      table.toggleAllRowsSelected(true);
+    }
+  };
+
+  const handleSearchChange = (value: string) => {
+    table.setGlobalFilter(value);
+    table.setPageIndex(0);
+  };
+
+  const filterValues = filters ? getFilterValues(filters, columnFilters) : {};
+  const handleFiltersChange = (
+    values: FilterValues<readonly FilterField[]>,
+  ) => {
+    if (!filters) return;
+    table.setColumnFilters((current) =>
+      setFilterValues(filters, current, values),
+    );
+    table.setPageIndex(0);
+  };
+
+  const queryFields = enableQueryBuilder ? getQueryFields(table) : [];
+  queryFieldsRef.current = queryFields;
+  const query = getQueryFromFilters(columnFilters);
+  const handleQueryChange = (value: QueryGroup | undefined) => {
+    table.setColumnFilters((current) => [
+      ...current.filter(({ id }) => id !== QUERY_COLUMN_ID),
+      ...(value?.rules.length ? [{ id: QUERY_COLUMN_ID, value }] : []),
+    ]);
+    table.setPageIndex(0);
+  };
+
+  const filterProps = (filters || enableQueryBuilder) && {
+    filtersOpen,
+    onToggleFilters: () => setFiltersOpen((open) => !open),
+    activeFiltersCount:
+      (filters ? countActiveFilters(filters, filterValues) : 0) +
+      (query ? countQueryConditions(query) : 0),
+    filtersContent: (
+      <div className="space-y-4">
+        {filters && (
+          <DataTableFilters
+            fields={filters}
+            value={filterValues}
+            onChange={handleFiltersChange}
+          />
+        )}
+        {enableQueryBuilder && (
+          <DataTableQueryBuilder
+            fields={queryFields}
+            value={query}
+            onChange={handleQueryChange}
+          />
+        )}
+      </div>
+    ),
+    filterChips: filters && (
+      <DataTableFilterChips
+        fields={filters}
+        value={filterValues}
+        onChange={handleFiltersChange}
+      />
+    ),
+  };
+
+  // Server mode can only export rows beyond the loaded ones through
+  // `fetchAll`; without it "all" and an all-matching selection are hidden
+  const canExportAll = !manualMode.pagination || !!exportOptions?.fetchAll;
+  const canExportSelected =
+    !!bulkSelection.count && (canExportAll || !allMatchingSelected);
+  const activeExportScope =
+    (exportScope === "all" && !canExportAll) ||
+    (exportScope === "selected" && !canExportSelected)
+      ? "page"
+      : exportScope;
+
+  const handleExport = async (format: DataTableExportFormat) => {
+    if (!exportOptions) return;
+    const {
+      title,
+      filename,
+      generatedBy,
+      subtitle,
+      filterSummary,
+      template,
+      settings,
+      fetchAll,
+    } = exportOptions;
+    const toastId = toast.loading("Generando reporte...");
+    const abortController = new AbortController();
+    const cancelAction = {
+      label: "Cancelar",
+      onClick: () => abortController.abort(),
+    };
+
+    try {
+      setIsExporting(true);
+
+      // Server mode only holds the current page; fetch the rest on demand
+      const scope = activeExportScope;
+      const fetchRows =
+        (scope === "all" || (scope === "selected" && allMatchingSelected)) &&
+        manualMode.pagination &&
+        fetchAll;
+      if (fetchRows) {
+        toast.loading("Obteniendo resultados...", {
+          id: toastId,
+          action: cancelAction,
+        });
+      }
+      const rows = fetchRows
+        ? await collectFetchedRows(
+            fetchRows(
+              { globalFilter, sorting, columnFilters },
+              abortController.signal,
+            ),
+            abortController.signal,
+            (count) =>
+              toast.loading(`${count} filas obtenidas`, {
+                id: toastId,
+                action: cancelAction,
+              }),
+          )
+        : scope === "selected"
+          ? selectedRows
+          : getTableExportRows(table, scope);
+
+      if (!rows.length) {
+        toast.error("No hay datos para exportar", { id: toastId });
+        return;
+      }
+
+      const exportData = {
+        title,
+        filename,
+        generatedBy,
+        subtitle,
+        filterSummary,
+        template,
+        settings,
+        columns: getTableExportColumns(table),
+        data: rows,
+        // Excel nests every grouped column as an outline level
+        groupBy: grouping,
+      };
+
+      if (format === "print") {
+        // The print dialog is its own feedback
+        toast.dismiss(toastId);
+        await printExportTable(exportData);
+        return;
+      }
+
+      if (format === "pdf") {
+        await exportToPdf(exportData);
+      } else {
+        // Excel/CSV/TSV are built in a worker, reporting progress per chunk
+        await exportRowsInWorker({
+          ...exportData,
+          format,
+          bom: true,
+          rows: rowsInChunks(rows),
+          total: rows.length,
+          signal: abortController.signal,
+          onProgress: ({ processed, total, stage }) =>
+            toast.loading(
+              stage === "writing"
+                ? "Generando archivo..."
+                : `${processed} / ${total} filas`,
+              { id: toastId, action: cancelAction },
+            ),
+        });
+      }
+
+      toast.success("Reporte generado correctamente", { id: toastId });
+    } catch {
+      if (abortController.signal.aborted) {
+        toast.info("Exportación cancelada", { id: toastId });
+      } else {
+        toast.error("Error al generar el reporte", { id: toastId });
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportFormats = exportOptions?.formats ?? DEFAULT_EXPORT_FORMATS;
+  const getExportHandler = (format: DataTableExportFormat) =>
+    exportOptions && exportFormats.includes(format)
+      ? () => handleExport(format)
+      : undefined;
+
+  const columnCount = table.getVisibleLeafColumns().length;
+  const rows = table.getRowModel().rows;
+
+  // Sizes and sticky offsets need a fixed layout; it stretches to the
+  // container so pinning a column doesn't shrink a narrow table
+  const sizedLayout = enableColumnResizing || table.getIsSomeColumnsPinned();
+
+  const handleRowClick = (row: Row<TData>) => {
+    if (row.getIsGrouped()) {
+      row.toggleExpanded();
+      return;
+    }
+    if (selection === "single") row.toggleSelected(true);
+    onRowClick?.(row.original);
+  };
+
+  // Keyboard: Space toggles the selection, Enter activates the row
+  const handleRowSelect =
+    selection === "single"
+      ? (row: Row<TData>) => !row.getIsGrouped() && row.toggleSelected(true)
+      : selection === "multiple"
+        ? (row: Row<TData>) => row.toggleSelected()
+        : undefined;
+  const handleRowActivate = (row: Row<TData>) => {
+    if (onRowActivate && !row.getIsGrouped()) onRowActivate(row.original);
+    else handleRowClick(row);
+  };
+
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
+  const { getRowProps } = useTableRowNavigation({
+    rows,
+    bodyRef,
+    getPageSize: () => pagination.pageSize,
+    onPageChange: paginate
+      ? (step) => {
+          const canMove =
+            step === 1 ? table.getCanNextPage() : table.getCanPreviousPage();
+          if (canMove) table.setPageIndex((index) => index + step);
+          return canMove;
+        }
+      : undefined,
+    onRowSelect: handleRowSelect,
+    onRowActivate: handleRowActivate,
+  });
+  const headerRowCount = table.getHeaderGroups().length;
+
+  // Group rows show the value with its row count in the grouped column and
+  // the aggregates in the rest; their leaves leave the grouped column empty
+  const renderCell = (cell: Cell<TData, unknown>) => {
+    const { row, column } = cell;
+    if (cell.getIsGrouped()) {
+      const leafCount = row
+        .getLeafRows()
+        .filter((leaf) => !leaf.getIsGrouped()).length;
+      return (
+        <button
+          type="button"
+          aria-expanded={row.getIsExpanded()}
+          onClick={(e) => {
+            e.stopPropagation();
+            row.toggleExpanded();
+          }}
+          className="inline-flex max-w-full items-center gap-1 font-medium"
+          style={{ paddingLeft: `${row.depth * 1.25}rem` }}
+        >
+          <ChevronRight
+            className={cn(
+              "size-4 shrink-0 transition-transform",
+              row.getIsExpanded() && "rotate-90",
+            )}
+          />
+          {flexRender(column.columnDef.cell, cell.getContext())}
+          <span className="font-normal text-muted-foreground">
+            ({leafCount})
+          </span>
+        </button>
+      );
+    }
+    if (cell.getIsPlaceholder()) return null;
+    return flexRender(
+      cell.getIsAggregated()
+        ? (column.columnDef.aggregatedCell ?? column.columnDef.cell)
+        : column.columnDef.cell,
+      cell.getContext(),
+    );
+  };
+
+  const renderRow = (row: Row<TData>, props?: ComponentProps<"tr">) => (
+    <TableRow
+      key={row.id}
+      {...props}
+      data-state={row.getIsSelected() ? "selected" : undefined}
+      aria-selected={selection ? row.getIsSelected() : undefined}
+      aria-expanded={row.getCanExpand() ? row.getIsExpanded() : undefined}
+      className={cn(
+        "hover:bg-gray-50/50",
+        (selection === "single" || onRowClick) && "cursor-pointer select-none",
+        row.getIsGrouped() && "cursor-pointer bg-gray-50 hover:bg-gray-100/70",
+        row.getIsSelected() && "bg-primary/5 ring-1 ring-primary/30",
+        props?.className,
+      )}
+      onClick={() => handleRowClick(row)}
+      onDoubleClick={
+        onRowDoubleClick &&
+        (() => !row.getIsGrouped() && onRowDoubleClick(row.original))
+      }
+    >
+      {row.getVisibleCells().map((cell) => (
+        <TableCell
+          key={cell.id}
+          {...getPinnedProps(cell.column)}
+          className={cn(
+            "text-center",
+            sizedLayout && "truncate",
+            cell.column.getIsPinned() && getPinnedRowClassName(row),
+          )}
+        >
+          {renderCell(cell)}
+        </TableCell>
+      ))}
+    </TableRow>
+  );
+
+  const virtualOptions = typeof virtualize === "object" ? virtualize : {};
+
+  return (
+    <AppDataTable
+      {...toolbarProps}
+      {...filterProps}
+      searchValue={enableFiltering ? globalFilter : undefined}
+      onSearchChange={enableFiltering ? handleSearchChange : undefined}
+      onClearSearch={enableFiltering ? () => handleSearchChange("") : undefined}
+      showResetSorting={enableSorting && sorting.length > 0}
+      onResetSorting={() => table.resetSorting(true)}
+      viewsMenu={
+        savedViews && (
+          <DataTableSavedViews
+            table={table}
+            tableId={savedViews.tableId}
+            backend={savedViews.backend}
+          />
+        )
+      }
+      columnsMenu={
+        enableColumnOptions && <DataTableColumnsMenu table={table} />
+      }
+      exportActions={
+        exportOptions && {
+          onExportExcel: getExportHandler("excel"),
+          onExportPdf: getExportHandler("pdf"),
+          onExportCsv: getExportHandler("csv"),
+          onExportTsv: getExportHandler("tsv"),
+          onPrint: getExportHandler("print"),
+          scope:
+            canExportAll || canExportSelected
+              ? {
+                  value: activeExportScope,
+                  onChange: setExportScope,
+                  selectedCount: canExportSelected ? bulkSelection.count : 0,
+                  allowAll: canExportAll,
+                }
+              : undefined,
+          isExporting,
+        }
+      }
+    >
+      {selection === "multiple" && (
+        <DataTableBulkActions
+          selection={bulkSelection}
+          actions={bulkActions}
+          totalCount={matchingCount}
+          canSelectAllMatching={table.getIsAllPageRowsSelected()}
+          onSelectAllMatching={handleSelectAllMatching}
+          onClearSelection={() => table.resetRowSelection(true)}
+        />
+      )}
+
+      {onRowsCommit && (
+        <DataTableEditBar
+          changedCells={countDraftCells(editingState.editing.drafts)}
+          invalidCells={countDraftErrors(table, editingState.editing.drafts)}
+          isSaving={editingState.editing.isSaving}
+          onSave={() => editingState.save(table)}
+          onDiscard={editingState.discard}
+        />
+      )}
+
+      <div
+        ref={scrollRef}
+        className={cn(
+          "flex-1 overflow-auto rounded-md border",
+          virtualize && "max-h-[70vh]",
+          className,
+        )}
+      >
+        {/* The outer div scrolls both ways so the header sticks to it */}
+        <Table
+          containerClassName="overflow-visible"
+          role="grid"
+          aria-multiselectable={selection === "multiple" || undefined}
+          aria-busy={isLoading || undefined}
+          // Virtualized rows are only partly in the DOM
+          aria-rowcount={virtualize ? headerRowCount + rows.length : undefined}
+          style={
+            sizedLayout
+              ? {
+                  width: table.getTotalSize(),
+                  minWidth: "100%",
+                  tableLayout: "fixed",
+                }
+              : undefined
+          }
+        >
+          <TableHeader className="bg-gray-50 sticky top-0 z-10">
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead
+                    key={header.id}
+                    {...getPinnedProps(header.column)}
+                    aria-sort={getAriaSort(header.column)}
+                    style={
+                      sizedLayout ? { width: header.getSize() } : undefined
+                    }
+                    className={cn(
+                      "text-gray-700 font-semibold text-center",
+                      // Pinned heads are sticky, which also anchors the handle
+                      header.column.getIsPinned() ? "bg-gray-50" : "relative",
+                    )}
+                  >
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                    {header.column.getCanResize() && (
+                      <div
+                        role="separator"
+                        aria-orientation="vertical"
+                        aria-label="Redimensionar columna"
+                        onMouseDown={header.getResizeHandler()}
+                        onTouchStart={header.getResizeHandler()}
+                        onDoubleClick={() => header.column.resetSize()}
+                        className={cn(
+                          "absolute top-0 right-0 h-full w-1 cursor-col-resize touch-none select-none hover:bg-primary/40",
+                          header.column.getIsResizing() && "bg-primary",
+                        )}
+                      />
+                    )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          {virtualize && !isLoading && rows.length ? (
+            <DataTableVirtualBody
+              {...virtualOptions}
+              rows={rows}
+              scrollRef={scrollRef}
+              columnCount={columnCount}
+              rowIndexOffset={headerRowCount}
+              renderRow={renderRow}
+              onRowSelect={handleRowSelect}
+              onRowActivate={handleRowActivate}
+            />
+          ) : (
+            <TableBody ref={bodyRef}>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="h-24 text-center">
+                    Cargando...
+                  </TableCell>
+                </TableRow>
+              ) : rows.length ? (
+                rows.map((row, index) => (
+                  <Fragment key={row.id}>
+                    {renderRow(row, getRowProps(row, index))}
+                    {showRowDetail &&
+                      row.getIsExpanded() &&
+                      !row.getIsGrouped() && (
+                        <TableRow className="bg-gray-50/50 hover:bg-gray-50/50">
+                          <TableCell colSpan={columnCount} className="p-4">
+                            {renderRowDetail?.(row.original)}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                  </Fragment>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="h-24 text-center">
+                    {emptyMessage}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          )}
+        </Table>
+      </div>
+
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      {paginate && (
+        <div className="mt-2">
+          <DataTablePagination
+            table={table}
+            totalItems={manualMode.pagination ? rowCount : undefined}
+            entityName={entityName}
+            showPageSizeOptions={showPageSizeOptions}
+          />
+        </div>
+      )}
+    </AppDataTable>
+  );
+}
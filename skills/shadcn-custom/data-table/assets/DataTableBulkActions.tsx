@@ -0,0 +1,139 @@
+import { useState, type ReactNode } from "react";
+import { Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+
+import type { DataTableQuery } from "@/components/custom/DataTable";
+import { Button } from "@/components/ui/button";
+import { useConfirmStore } from "@/store/confirm.store";
+
+// What a bulk action operates on
+export interface DataTableBulkSelection<TData> {
+  // Selected rows loaded so far (every page the user visited)
+  rows: TData[];
+  // Rows affected, including server rows never loaded when `allMatching`
+  count: number;
+  // Server mode: apply to every row matching `query`, not only `rows`
+  allMatching: boolean;
+  query: DataTableQuery;
+}
+
+export interface DataTableBulkAction<TData> {
+  label: string;
+  icon?: ReactNode;
+  onAction: (selection: DataTableBulkSelection<TData>) => void | Promise<void>;
+  // Asks for confirmation through ConfirmDialog and renders in red
+  destructive?: boolean;
+  confirmTitle?: string;
+  // Defaults to "¿Está seguro de ... N registros?"
+  confirmMessage?: (count: number) => ReactNode;
+  confirmLabel?: string;
+  disabled?: (selection: DataTableBulkSelection<TData>) => boolean;
+  // The selection is cleared after the action unless this is set
+  keepSelection?: boolean;
+}
+
+interface DataTableBulkActionsProps<TData> {
+  selection: DataTableBulkSelection<TData>;
+  actions: DataTableBulkAction<TData>[];
+  // Rows matching the current search and filters
+  totalCount: number;
+  // The whole page is selected, so "select all matching" makes sense
+  canSelectAllMatching: boolean;
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+}
+
+export function DataTableBulkActions<TData>({
+  selection,
+  actions,
+  totalCount,
+  canSelectAllMatching,
+  onSelectAllMatching,
+  onClearSelection,
+}: DataTableBulkActionsProps<TData>) {
+  const [runningAction, setRunningAction] = useState<string | null>(null);
+  const openConfirm = useConfirmStore((state) => state.openConfirm);
+  const { count } = selection;
+  if (!count) return null;
+
+  const runAction = async (action: DataTableBulkAction<TData>) => {
+    await action.onAction(selection);
+    if (!action.keepSelection) onClearSelection();
+  };
+
+  const handleAction = async (action: DataTableBulkAction<TData>) => {
+    if (action.destructive) {
+      // ConfirmDialog shows the loading state and the error toast
+      openConfirm({
+        title: action.confirmTitle ?? action.label,
+        message:
+          action.confirmMessage?.(count) ??
+          `¿Está seguro de ${action.label.toLowerCase()} ${count} ${
+            count === 1 ? "registro" : "registros"
+          }? Esta acción no se puede deshacer.`,
+        confirmLabel: action.confirmLabel ?? "Sí",
+        cancelLabel: "No",
+        onConfirm: () => runAction(action),
+      });
+      return;
+    }
+
+    try {
+      setRunningAction(action.label);
+      await runAction(action);
+    } catch {
+      toast.error(`No se pudo completar la acción "${action.label}"`);
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-20 flex flex-wrap items-center gap-3 rounded-md border bg-white px-4 py-2 shadow-sm">
+      <span className="text-sm font-medium">
+        {selection.allMatching
+          ? `Los ${count} resultados seleccionados`
+          : `${count} ${count === 1 ? "seleccionado" : "seleccionados"}`}
+      </span>
+      {canSelectAllMatching && !selection.allMatching && count < totalCount && (
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto p-0"
+          onClick={onSelectAllMatching}
+        >
+          Seleccionar los {totalCount} resultados
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-muted-foreground"
+        onClick={onClearSelection}
+      >
+        <X className="mr-1 size-4" />
+        Limpiar selección
+      </Button>
+
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        {actions.map((action) => (
+          <Button
+            key={action.label}
+            variant={action.destructive ? "destructive" : "outline"}
+            size="sm"
+            disabled={!!runningAction || action.disabled?.(selection)}
+            onClick={() => handleAction(action)}
+            className="gap-2"
+          >
+            {runningAction === action.label ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              action.icon
+            )}
+            {action.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
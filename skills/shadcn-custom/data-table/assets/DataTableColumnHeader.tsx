@@ -1,6 +1,15 @@
 import type { MouseEvent } from "react";
 import { type Column } from "@tanstack/react-table";
-import { ArrowDown, ArrowUp, ChevronsUpDown } from "lucide-react";
+import {
+  ArrowDown,
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  ArrowUp,
+  ChevronsUpDown,
+  Group,
+  PinOff,
+  Ungroup,
+} from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -23,12 +32,18 @@ export function DataTableColumnHeader<TData, TValue>({
   title,
   className,
 }: DataTableColumnHeaderProps<TData, TValue>) {
-  if (!column.getCanSort()) {
+  const canSort = column.getCanSort();
+  const canPin = column.getCanPin();
+  const pinned = column.getIsPinned();
+  // Only offered when the table has `enableGrouping`
+  const canGroup = column.getCanGroup();
+
+  if (!canSort && !canPin && !canGroup) {
     return <div className={cn(className)}>{title}</div>;
   }
 
   const handleSortToggle = (event: MouseEvent<HTMLButtonElement>) => {
-    column.toggleSorting(undefined, event.shiftKey);
+    if (canSort) column.toggleSorting(undefined, event.shiftKey);
   };
 
   return (
@@ -44,7 +59,7 @@ export function DataTableColumnHeader<TData, TValue>({
             onClick={handleSortToggle}
           >
             <span>{title}</span>
-            {column.getIsSorted() === "desc" ? (
+            {!canSort ? null : column.getIsSorted() === "desc" ? (
               <ArrowDown className="ml-2 h-4 w-4" />
             ) : column.getIsSorted() === "asc" ? (
               <ArrowUp className="ml-2 h-4 w-4" />
@@ -54,23 +69,66 @@ export function DataTableColumnHeader<TData, TValue>({
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="start">
-          <DropdownMenuItem
-            onClick={(e) => column.toggleSorting(false, e.shiftKey)}
-          >
-            <ArrowUp className="mr-2 h-3.5 w-3.5 text-muted-foreground/70" />
-            Asc
-          </DropdownMenuItem>
-          <DropdownMenuItem
-            onClick={(e) => column.toggleSorting(true, e.shiftKey)}
-          >
-            <ArrowDown className="mr-2 h-3.5 w-3.5 text-muted-foreground/70" />
-            Desc
-          </DropdownMenuItem>
-          <DropdownMenuSeparator />
-          <DropdownMenuItem onClick={() => column.clearSorting()}>
-            <ChevronsUpDown className="mr-2 h-3.5 w-3.5 text-muted-foreground/70" />
-            Reset
-          </DropdownMenuItem>
+          {canSort && (
+            <>
+              <DropdownMenuItem
+                onClick={(e) => column.toggleSorting(false, e.shiftKey)}
+              >
+                <ArrowUp className="mr-2 h-3.5 w-3.5 text-muted-foreground/70" />
+                Asc
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={(e) => column.toggleSorting(true, e.shiftKey)}
+              >
+                <ArrowDown className="mr-2 h-3.5 w-3.5 text-muted-foreground/70" />
+                Desc
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => column.clearSorting()}>
+                <ChevronsUpDown className="mr-2 h-3.5 w-3.5 text-muted-foreground/70" />
+                Reset
+              </DropdownMenuItem>
+            </>
+          )}
+          {canSort && canPin && <DropdownMenuSeparator />}
+          {canPin && (
+            <>
+              {pinned !== "left" && (
+                <DropdownMenuItem onClick={() => column.pin("left")}>
+                  <ArrowLeftToLine className="mr-2 h-3.5 w-3.5 text-muted-foreground/70" />
+                  Fijar a la izquierda
+                </DropdownMenuItem>
+              )}
+              {pinned !== "right" && (
+                <DropdownMenuItem onClick={() => column.pin("right")}>
+                  <ArrowRightToLine className="mr-2 h-3.5 w-3.5 text-muted-foreground/70" />
+                  Fijar a la derecha
+                </DropdownMenuItem>
+              )}
+              {pinned && (
+                <DropdownMenuItem onClick={() => column.pin(false)}>
+                  <PinOff className="mr-2 h-3.5 w-3.5 text-muted-foreground/70" />
+                  Desfijar
+                </DropdownMenuItem>
+              )}
+            </>
+          )}
+          {(canSort || canPin) && canGroup && <DropdownMenuSeparator />}
+          {canGroup && (
+            <DropdownMenuItem onClick={column.getToggleGroupingHandler()}>
+              {column.getIsGrouped() ? (
+                <>
+                  <Ungroup className="mr-2 h-3.5 w-3.5 text-muted-foreground/70" />
+                  Desagrupar
+                </>
+              ) : (
+                <>
+                  <Group className="mr-2 h-3.5 w-3.5 text-muted-foreground/70" />
+                  Agrupar por esta columna
+                </>
+              )}
+            </DropdownMenuItem>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
     </div>
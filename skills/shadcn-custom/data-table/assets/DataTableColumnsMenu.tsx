@@ -0,0 +1,123 @@
+import { useState, type KeyboardEvent } from "react";
+import { type Table } from "@tanstack/react-table";
+import { GripVertical, RotateCcw, Settings2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getColumnLabel } from "@/lib/table-export";
+import { cn } from "@/lib/utils";
+
+interface DataTableColumnsMenuProps<TData> {
+  table: Table<TData>;
+}
+
+// Leaf columns in display order: ids listed in `columnOrder` first, then the
+// rest as declared (the same rule TanStack applies).
+const getOrderedColumns = <TData,>(table: Table<TData>) => {
+  const { columnOrder } = table.getState();
+  const columns = table.getAllLeafColumns();
+  return [
+    ...columnOrder.flatMap((id) =>
+      columns.filter((column) => column.id === id),
+    ),
+    ...columns.filter((column) => !columnOrder.includes(column.id)),
+  ];
+};
+
+export function DataTableColumnsMenu<TData>({
+  table,
+}: DataTableColumnsMenuProps<TData>) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const columns = getOrderedColumns(table);
+  const hideableColumns = columns.filter((column) => column.getCanHide());
+
+  const moveColumn = (columnId: string, targetId: string) => {
+    if (columnId === targetId) return;
+    const order = columns.map((column) => column.id);
+    const movingDown = order.indexOf(columnId) < order.indexOf(targetId);
+    order.splice(order.indexOf(columnId), 1);
+    order.splice(order.indexOf(targetId) + (movingDown ? 1 : 0), 0, columnId);
+    table.setColumnOrder(order);
+  };
+
+  // Alt + Arrow keys reorder without a mouse
+  const handleKeyDown = (
+    event: KeyboardEvent<HTMLDivElement>,
+    columnId: string,
+    index: number,
+  ) => {
+    if (!event.altKey) return;
+    if (event.key !== "ArrowUp" && event.key !== "ArrowDown") return;
+    event.preventDefault();
+    event.stopPropagation();
+    const target = hideableColumns[index + (event.key === "ArrowUp" ? -1 : 1)];
+    if (target) moveColumn(columnId, target.id);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Settings2 className="mr-2 size-4" />
+          Columnas
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel>Columnas visibles</DropdownMenuLabel>
+        <DropdownMenuLabel className="pt-0 text-xs font-normal text-muted-foreground">
+          Arrastrar para reordenar (Alt + ↑/↓)
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {hideableColumns.map((column, index) => (
+          <DropdownMenuCheckboxItem
+            key={column.id}
+            checked={column.getIsVisible()}
+            onCheckedChange={(value) => column.toggleVisibility(!!value)}
+            // Keep the menu open to toggle several columns in a row
+            onSelect={(e) => e.preventDefault()}
+            onKeyDown={(e) => handleKeyDown(e, column.id, index)}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              setDraggedId(column.id);
+            }}
+            onDragOver={(e) => {
+              if (draggedId) e.preventDefault();
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (draggedId) moveColumn(draggedId, column.id);
+              setDraggedId(null);
+            }}
+            onDragEnd={() => setDraggedId(null)}
+            className={cn(draggedId === column.id && "opacity-50")}
+          >
+            <span className="truncate">{getColumnLabel(column)}</span>
+            <GripVertical className="ml-auto cursor-grab text-muted-foreground" />
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          onClick={() => {
+            table.resetColumnVisibility();
+            table.resetColumnOrder();
+            table.resetColumnPinning();
+            table.resetColumnSizing();
+            table.resetGrouping();
+          }}
+        >
+          <RotateCcw className="mr-2 h-3.5 w-3.5 text-muted-foreground/70" />
+          Restablecer columnas
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
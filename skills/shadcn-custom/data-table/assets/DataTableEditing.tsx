@@ -0,0 +1,233 @@
+import type { KeyboardEvent } from "react";
+import type { CellContext } from "@tanstack/react-table";
+import { parseISO } from "date-fns";
+import { Loader2, Save, Undo2 } from "lucide-react";
+
+import { Combobox } from "@/components/custom/Combobox";
+import { SmartDatePicker } from "@/components/custom/SmartDatePicker";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { validateCellValue } from "@/lib/table-editing";
+import { toDayString } from "@/lib/table-filters";
+import { cn } from "@/lib/utils";
+
+// Enter moves to the same column in the next row (Shift+Enter, the previous)
+const focusVerticalCell = (
+  from: HTMLElement,
+  columnId: string,
+  step: 1 | -1,
+) => {
+  let row = from.closest("tr");
+  while (row) {
+    row = (
+      step === 1 ? row.nextElementSibling : row.previousElementSibling
+    ) as HTMLTableRowElement | null;
+    const target = row?.querySelector<HTMLElement>(
+      `[data-edit-cell="${CSS.escape(columnId)}"] :is(input, button)`,
+    );
+    if (target) {
+      target.focus();
+      return;
+    }
+  }
+};
+
+/**
+ * Editor for a column with `meta.edit`, reading and writing drafts through
+ * `table.options.meta.editing`. Dirty cells are highlighted and invalid ones
+ * show the schema's message.
+ */
+export function DataTableEditableCell<TData>({
+  row,
+  column,
+  table,
+  getValue,
+}: CellContext<TData, unknown>) {
+  const edit = column.columnDef.meta?.edit;
+  const editing = table.options.meta?.editing;
+  const savedValue = getValue();
+  // Group rows show the grouped value, never an editor
+  if (!edit || !editing || row.getIsGrouped()) {
+    return <>{String(savedValue ?? "")}</>;
+  }
+
+  const draft = editing.drafts[row.id]?.values;
+  const isDirty = !!draft && column.id in draft;
+  const value = isDirty ? draft[column.id] : savedValue;
+  const error = isDirty ? validateCellValue(edit, value) : undefined;
+  const disabled = editing.isSaving || !!edit.disabled?.(row.original);
+
+  const setValue = (next: unknown) =>
+    editing.setCellValue(row, column.id, next, savedValue);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Escape") {
+      setValue(savedValue);
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      focusVerticalCell(
+        event.currentTarget,
+        column.id,
+        event.shiftKey ? -1 : 1,
+      );
+    }
+  };
+
+  const inputClassName = cn(
+    "h-8 bg-white",
+    edit.type === "number" && "text-right",
+    error && "border-red-500 focus-visible:ring-red-500",
+  );
+
+  const renderEditor = () => {
+    switch (edit.type) {
+      case "number":
+        return (
+          <Input
+            type="number"
+            value={value === null || value === undefined ? "" : String(value)}
+            placeholder={edit.placeholder}
+            disabled={disabled}
+            onChange={(e) =>
+              setValue(e.target.value === "" ? null : e.target.valueAsNumber)
+            }
+            onKeyDown={handleKeyDown}
+            className={inputClassName}
+          />
+        );
+      case "select":
+        return (
+          <Combobox
+            options={edit.options ?? column.columnDef.meta?.options ?? []}
+            value={(value as string | undefined) ?? undefined}
+            onChange={setValue}
+            placeholder={edit.placeholder}
+            disabled={disabled}
+            width="w-full"
+          />
+        );
+      case "date": {
+        // Keep the type of the data: "yyyy-MM-dd" strings or Date objects
+        const keepString = typeof savedValue === "string";
+        return (
+          <SmartDatePicker
+            value={
+              value instanceof Date
+                ? value
+                : typeof value === "string" && value
+                  ? parseISO(value)
+                  : undefined
+            }
+            onChange={(date) =>
+              setValue(keepString ? toDayString(date) : (date ?? null))
+            }
+            placeholder={edit.placeholder}
+          />
+        );
+      }
+      case "boolean":
+        return (
+          <Switch
+            checked={!!value}
+            disabled={disabled}
+            onCheckedChange={setValue}
+          />
+        );
+      default:
+        return (
+          <Input
+            value={String(value ?? "")}
+            placeholder={edit.placeholder}
+            disabled={disabled}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className={inputClassName}
+          />
+        );
+    }
+  };
+
+  return (
+    <div
+      data-edit-cell={column.id}
+      title={error}
+      // Editing a cell shouldn't select or open the row
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      className={cn(
+        "-mx-1 rounded-md px-1 py-0.5 text-left",
+        isDirty && "bg-amber-50 ring-1 ring-amber-300",
+        error && "bg-red-50 ring-red-300",
+        edit.type === "boolean" && "flex justify-center",
+        // SmartDatePicker has no disabled state of its own
+        disabled && edit.type === "date" && "pointer-events-none opacity-50",
+      )}
+    >
+      {renderEditor()}
+      {error && <p className="mt-1 truncate text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
+
+interface DataTableEditBarProps {
+  changedCells: number;
+  invalidCells: number;
+  isSaving: boolean;
+  onSave: () => void;
+  onDiscard: () => void;
+}
+
+// Pending changes count with "Guardar" / "Descartar"
+export function DataTableEditBar({
+  changedCells,
+  invalidCells,
+  isSaving,
+  onSave,
+  onDiscard,
+}: DataTableEditBarProps) {
+  if (!changedCells && !isSaving) return null;
+
+  return (
+    <div className="sticky top-0 z-20 flex flex-wrap items-center gap-3 rounded-md border border-amber-300 bg-amber-50 px-4 py-2 shadow-sm">
+      <span className="text-sm font-medium">
+        {isSaving
+          ? "Guardando cambios..."
+          : `${changedCells} ${
+              changedCells === 1 ? "cambio sin guardar" : "cambios sin guardar"
+            }`}
+      </span>
+      {invalidCells > 0 && (
+        <span className="text-sm text-red-600">
+          {invalidCells === 1
+            ? "1 celda con errores"
+            : `${invalidCells} celdas con errores`}
+        </span>
+      )}
+
+      <div className="ml-auto flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isSaving}
+          onClick={onDiscard}
+        >
+          <Undo2 className="mr-2 size-4" />
+          Descartar
+        </Button>
+        <Button
+          size="sm"
+          disabled={isSaving || invalidCells > 0}
+          onClick={onSave}
+        >
+          {isSaving ? (
+            <Loader2 className="mr-2 size-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 size-4" />
+          )}
+          Guardar cambios
+        </Button>
+      </div>
+    </div>
+  );
+}
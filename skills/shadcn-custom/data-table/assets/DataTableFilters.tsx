@@ -0,0 +1,251 @@
+import { format } from "date-fns";
+import { RotateCcw, X } from "lucide-react";
+
+import { Combobox, MultiCombobox } from "@/components/custom/Combobox";
+import { DateRangePicker } from "@/components/date-range-picker/date-range-picker";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  countActiveFilters,
+  formatFilterValue,
+  isFilterValueActive,
+  type DateRangeFilterValue,
+  type FilterField,
+  type FilterValues,
+  type NumberRangeFilterValue,
+} from "@/lib/table-filters";
+
+interface DataTableFiltersProps<TFields extends readonly FilterField[]> {
+  fields: TFields;
+  value: FilterValues<TFields>;
+  onChange: (value: FilterValues<TFields>) => void;
+}
+
+const parseNumber = (value: string) =>
+  value === "" || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+function FilterControl({
+  field,
+  value,
+  onChange,
+}: {
+  field: FilterField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) {
+  switch (field.type) {
+    case "text":
+      return (
+        <Input
+          value={(value as string | undefined) ?? ""}
+          placeholder={field.placeholder ?? "Contiene..."}
+          onChange={(e) => onChange(e.target.value)}
+          className="bg-white"
+        />
+      );
+    case "select":
+      return (
+        <Combobox
+          options={field.options}
+          value={value as string | undefined}
+          onChange={onChange}
+          placeholder={field.placeholder ?? "Todos"}
+          width="w-full"
+        />
+      );
+    case "multiSelect":
+      return (
+        <MultiCombobox
+          options={field.options}
+          value={(value as string[] | undefined) ?? []}
+          onChange={onChange}
+          placeholder={field.placeholder ?? "Todos"}
+          width="w-full"
+        />
+      );
+    case "dateRange": {
+      const range = value as DateRangeFilterValue | undefined;
+      return (
+        // The picker only reads its initial dates: remount when they change
+        <DateRangePicker
+          key={`${range?.from}-${range?.to}`}
+          initialDateFrom={range?.from}
+          initialDateTo={range?.to}
+          placeholder={field.placeholder ?? "Cualquier fecha"}
+          showCompare={false}
+          align="start"
+          onUpdate={({ range: picked }) =>
+            onChange({
+              from: picked.from && format(picked.from, "yyyy-MM-dd"),
+              to: picked.to && format(picked.to, "yyyy-MM-dd"),
+            })
+          }
+        />
+      );
+    }
+    case "numberRange": {
+      const range = (value as NumberRangeFilterValue | undefined) ?? {};
+      const inputProps = {
+        type: "number",
+        min: field.min,
+        max: field.max,
+        step: field.step,
+        className: "bg-white",
+      };
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            {...inputProps}
+            placeholder="Mín."
+            value={range.min ?? ""}
+            onChange={(e) =>
+              onChange({ ...range, min: parseNumber(e.target.value) })
+            }
+          />
+          <span className="text-muted-foreground">-</span>
+          <Input
+            {...inputProps}
+            placeholder="Máx."
+            value={range.max ?? ""}
+            onChange={(e) =>
+              onChange({ ...range, max: parseNumber(e.target.value) })
+            }
+          />
+        </div>
+      );
+    }
+    case "boolean":
+      return (
+        <Select
+          value={value === undefined ? "all" : String(value)}
+          onValueChange={(selected) =>
+            onChange(selected === "all" ? undefined : selected === "true")
+          }
+        >
+          <SelectTrigger className="w-full bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{field.placeholder ?? "Todos"}</SelectItem>
+            <SelectItem value="true">{field.trueLabel ?? "Sí"}</SelectItem>
+            <SelectItem value="false">{field.falseLabel ?? "No"}</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+  }
+}
+
+// Filter panel rendered from the schema, e.g. inside AppDataTable's
+// `filtersContent`
+export function DataTableFilters<TFields extends readonly FilterField[]>({
+  fields,
+  value,
+  onChange,
+}: DataTableFiltersProps<TFields>) {
+  const values = value as Record<string, unknown>;
+  const setValue = (id: string, fieldValue: unknown) =>
+    onChange({ ...values, [id]: fieldValue } as FilterValues<TFields>);
+
+  return (
+    <div className="space-y-4 rounded-md border bg-gray-50/50 p-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {fields.map((field) => (
+          <div key={field.id} className="space-y-2">
+            <div className="flex h-5 items-center justify-between">
+              <Label>{field.label}</Label>
+              {isFilterValueActive(values[field.id]) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-5"
+                  aria-label={`Quitar filtro ${field.label}`}
+                  onClick={() => setValue(field.id, undefined)}
+                >
+                  <X className="size-3" />
+                </Button>
+              )}
+            </div>
+            <FilterControl
+              field={field}
+              value={values[field.id]}
+              onChange={(fieldValue) => setValue(field.id, fieldValue)}
+            />
+          </div>
+        ))}
+      </div>
+      {countActiveFilters(fields, value) > 0 && (
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({} as FilterValues<TFields>)}
+          >
+            <RotateCcw className="mr-2 size-4" />
+            Limpiar filtros
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Active filters as removable chips, e.g. in AppDataTable's `filterChips`
+export function DataTableFilterChips<TFields extends readonly FilterField[]>({
+  fields,
+  value,
+  onChange,
+}: DataTableFiltersProps<TFields>) {
+  const values = value as Record<string, unknown>;
+  const activeFields = fields.filter((field) =>
+    isFilterValueActive(values[field.id]),
+  );
+  if (!activeFields.length) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {activeFields.map((field) => (
+        <Badge
+          key={field.id}
+          variant="secondary"
+          className="max-w-xs gap-1 py-1 pr-1 text-sm"
+        >
+          <span className="truncate">
+            {field.label}: {formatFilterValue(field, values[field.id])}
+          </span>
+          <button
+            type="button"
+            className="rounded-full p-0.5 hover:bg-black/10"
+            aria-label={`Quitar filtro ${field.label}`}
+            onClick={() =>
+              onChange({
+                ...values,
+                [field.id]: undefined,
+              } as FilterValues<TFields>)
+            }
+          >
+            <X className="size-3" />
+          </button>
+        </Badge>
+      ))}
+      {activeFields.length > 1 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-muted-foreground"
+          onClick={() => onChange({} as FilterValues<TFields>)}
+        >
+          Limpiar todo
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+import { useState } from "react";
+import { ListPlus, Plus, RotateCcw, Trash2 } from "lucide-react";
+
+import { Combobox, MultiCombobox } from "@/components/custom/Combobox";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  countQueryConditions,
+  createQueryCondition,
+  createQueryGroup,
+  getOperatorLabel,
+  operatorNeedsValue,
+  QUERY_OPERATORS,
+  type QueryCombinator,
+  type QueryCondition,
+  type QueryField,
+  type QueryGroup,
+  type QueryOperator,
+  type QueryRule,
+  type QueryValue,
+} from "@/lib/table-query";
+import { cn } from "@/lib/utils";
+
+interface DataTableQueryBuilderProps {
+  fields: QueryField[];
+  value?: QueryGroup;
+  // Receives undefined when the query is cleared
+  onChange: (value: QueryGroup | undefined) => void;
+  // Nesting levels, counting the root group
+  maxDepth?: number;
+}
+
+// Operators that take the same kind of value can keep it when switching
+const getValueShape = (operator: QueryOperator) => {
+  if (!operatorNeedsValue(operator)) return "none";
+  if (operator === "between") return "range";
+  if (operator === "in" || operator === "notIn") return "list";
+  return "single";
+};
+
+function QueryValueInput({
+  field,
+  condition,
+  onChange,
+}: {
+  field: QueryField;
+  condition: QueryCondition;
+  onChange: (value: QueryValue | undefined) => void;
+}) {
+  const shape = getValueShape(condition.operator);
+  if (shape === "none") return null;
+
+  if (field.type === "select") {
+    const options = field.options ?? [];
+    return shape === "list" ? (
+      <MultiCombobox
+        options={options}
+        value={(condition.value as string[] | undefined) ?? []}
+        onChange={onChange}
+        width="w-[220px]"
+      />
+    ) : (
+      <Combobox
+        options={options}
+        value={condition.value as string | undefined}
+        onChange={onChange}
+        width="w-[220px]"
+      />
+    );
+  }
+
+  const inputType =
+    field.type === "number"
+      ? "number"
+      : field.type === "date"
+        ? "date"
+        : "text";
+  const parse = (value: string) =>
+    field.type === "number" && value !== "" ? Number(value) : value;
+
+  if (shape === "range") {
+    const [from = "", to = ""] = (condition.value as (string | number)[]) ?? [];
+    return (
+      <div className="flex items-center gap-2">
+        <Input
+          type={inputType}
+          value={from}
+          onChange={(e) => onChange([parse(e.target.value), to])}
+          className="w-[150px] bg-white"
+        />
+        <span className="text-sm text-muted-foreground">y</span>
+        <Input
+          type={inputType}
+          value={to}
+          onChange={(e) => onChange([from, parse(e.target.value)])}
+          className="w-[150px] bg-white"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <Input
+      type={inputType}
+      value={(condition.value as string | number | undefined) ?? ""}
+      placeholder="Valor"
+      onChange={(e) => onChange(parse(e.target.value))}
+      className="w-[220px] bg-white"
+    />
+  );
+}
+
+function QueryConditionEditor({
+  condition,
+  fields,
+  onChange,
+  onRemove,
+}: {
+  condition: QueryCondition;
+  fields: QueryField[];
+  onChange: (condition: QueryCondition) => void;
+  onRemove: () => void;
+}) {
+  const field = fields.find((item) => item.id === condition.field);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={condition.field}
+        onValueChange={(fieldId) => {
+          const nextField = fields.find((item) => item.id === fieldId);
+          if (nextField) {
+            onChange({ ...createQueryCondition(nextField), id: condition.id });
+          }
+        }}
+      >
+        <SelectTrigger className="w-[180px] bg-white">
+          <SelectValue placeholder="Campo" />
+        </SelectTrigger>
+        <SelectContent>
+          {fields.map((item) => (
+            <SelectItem key={item.id} value={item.id}>
+              {item.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {field && (
+        <>
+          <Select
+            value={condition.operator}
+            onValueChange={(value) => {
+              const operator = value as QueryOperator;
+              const keepValue =
+                getValueShape(operator) === getValueShape(condition.operator);
+              onChange({
+                ...condition,
+                operator,
+                value: keepValue ? condition.value : undefined,
+              });
+            }}
+          >
+            <SelectTrigger className="w-[180px] bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QUERY_OPERATORS[field.type].map((operator) => (
+                <SelectItem key={operator} value={operator}>
+                  {getOperatorLabel(field.type, operator)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <QueryValueInput
+            field={field}
+            condition={condition}
+            onChange={(value) => onChange({ ...condition, value })}
+          />
+        </>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-8 text-muted-foreground"
+        aria-label="Quitar condición"
+        onClick={onRemove}
+      >
+        <Trash2 className="size-4" />
+      </Button>
+    </div>
+  );
+}
+
+function QueryGroupEditor({
+  group,
+  fields,
+  depth,
+  maxDepth,
+  onChange,
+  onRemove,
+}: {
+  group: QueryGroup;
+  fields: QueryField[];
+  depth: number;
+  maxDepth: number;
+  onChange: (group: QueryGroup) => void;
+  onRemove?: () => void;
+}) {
+  const setRules = (rules: QueryRule[]) => onChange({ ...group, rules });
+  const updateRule = (rule: QueryRule) =>
+    setRules(group.rules.map((item) => (item.id === rule.id ? rule : item)));
+  const removeRule = (id: string) =>
+    setRules(group.rules.filter((item) => item.id !== id));
+
+  return (
+    <div
+      className={cn(
+        "space-y-2",
+        depth > 0 && "rounded-md border border-dashed bg-white p-3",
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.combinator}
+          onValueChange={(value) =>
+            onChange({ ...group, combinator: value as QueryCombinator })
+          }
+        >
+          <SelectTrigger size="sm" className="w-[230px] bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">
+              Cumplir todas las condiciones (Y)
+            </SelectItem>
+            <SelectItem value="or">Cumplir alguna condición (O)</SelectItem>
+          </SelectContent>
+        </Select>
+        {onRemove && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="ml-auto size-8 text-muted-foreground"
+            aria-label="Quitar grupo"
+            onClick={onRemove}
+          >
+            <Trash2 className="size-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.rules.map((rule) =>
+        rule.type === "group" ? (
+          <QueryGroupEditor
+            key={rule.id}
+            group={rule}
+            fields={fields}
+            depth={depth + 1}
+            maxDepth={maxDepth}
+            onChange={updateRule}
+            onRemove={() => removeRule(rule.id)}
+          />
+        ) : (
+          <QueryConditionEditor
+            key={rule.id}
+            condition={rule}
+            fields={fields}
+            onChange={updateRule}
+            onRemove={() => removeRule(rule.id)}
+          />
+        ),
+      )}
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!fields.length}
+          onClick={() =>
+            setRules([...group.rules, createQueryCondition(fields[0])])
+          }
+        >
+          <Plus className="mr-2 size-4" />
+          Condición
+        </Button>
+        {depth + 1 < maxDepth && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setRules([
+                ...group.rules,
+                // Alternate the combinator so nesting is useful right away
+                createQueryGroup(group.combinator === "and" ? "or" : "and"),
+              ])
+            }
+          >
+            <ListPlus className="mr-2 size-4" />
+            Grupo
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// AND/OR condition groups over the table's columns, e.g. inside
+// AppDataTable's `filtersContent`
+export function DataTableQueryBuilder({
+  fields,
+  value,
+  onChange,
+  maxDepth = 3,
+}: DataTableQueryBuilderProps) {
+  const [emptyQuery] = useState(() => createQueryGroup());
+  const query = value ?? emptyQuery;
+
+  return (
+    <div className="space-y-3 rounded-md border bg-gray-50/50 p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Consulta avanzada</p>
+        {countQueryConditions(query) > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(undefined)}
+          >
+            <RotateCcw className="mr-2 size-4" />
+            Limpiar consulta
+          </Button>
+        )}
+      </div>
+      <QueryGroupEditor
+        group={query}
+        fields={fields}
+        depth={0}
+        maxDepth={maxDepth}
+        onChange={onChange}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { type Table } from "@tanstack/react-table";
+import {
+  Bookmark,
+  Check,
+  Pencil,
+  Plus,
+  Save,
+  Star,
+  StarOff,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import {
+  createStorageViewsBackend,
+  type SavedTableView,
+  type SavedViewsBackend,
+} from "@/lib/table-saved-views";
+import {
+  applyTableViewState,
+  getTableViewState,
+  sanitizeTableViewState,
+} from "@/lib/table-view-state";
+
+interface DataTableSavedViewsProps<TData> {
+  table: Table<TData>;
+  // Views are stored per table id
+  tableId: string;
+  // Defaults to localStorage
+  backend?: SavedViewsBackend;
+}
+
+type NameDialogState =
+  { mode: "create" } | { mode: "rename"; view: SavedTableView };
+
+const applyViewState = <TData,>(table: Table<TData>, view: SavedTableView) => {
+  const columnIds = table.getAllLeafColumns().map((column) => column.id);
+  applyTableViewState(table, sanitizeTableViewState(view.state, columnIds));
+  table.setPageIndex(0);
+};
+
+export function DataTableSavedViews<TData>({
+  table,
+  tableId,
+  backend,
+}: DataTableSavedViewsProps<TData>) {
+  const [defaultBackend] = useState(() => createStorageViewsBackend());
+  const viewsBackend = backend ?? defaultBackend;
+  // Views load once per tableId; an inline backend shouldn't reload them and
+  // re-apply the default view on every render
+  const viewsBackendRef = useRef(viewsBackend);
+  useLayoutEffect(() => {
+    viewsBackendRef.current = viewsBackend;
+  });
+  const [views, setViews] = useState<SavedTableView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [name, setName] = useState("");
+
+  const activeView = views.find((view) => view.id === activeViewId);
+  const currentState = getTableViewState(table);
+  const isModified =
+    !!activeView &&
+    JSON.stringify(currentState) !==
+      JSON.stringify({ ...currentState, ...activeView.state });
+
+  const applyView = (view: SavedTableView) => {
+    applyViewState(table, view);
+    setActiveViewId(view.id);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.resolve(viewsBackendRef.current.list(tableId))
+      .then((loaded) => {
+        if (cancelled) return;
+        setViews(loaded);
+        const defaultView = loaded.find((view) => view.isDefault);
+        if (defaultView) {
+          applyViewState(table, defaultView);
+          setActiveViewId(defaultView.id);
+        }
+      })
+      .catch(() => toast.error("No se pudieron cargar las vistas"));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [table, tableId]);
+
+  // Optimistic update, rolled back if the backend fails
+  const persist = async (
+    nextViews: SavedTableView[],
+    action: () => unknown,
+    errorMessage: string,
+  ) => {
+    const previousViews = views;
+    setViews(nextViews);
+    try {
+      await action();
+    } catch {
+      setViews(previousViews);
+      toast.error(errorMessage);
+    }
+  };
+
+  const touch = (view: SavedTableView): SavedTableView => ({
+    ...view,
+    updatedAt: new Date().toISOString(),
+  });
+
+  const createView = (viewName: string) => {
+    const view: SavedTableView = {
+      id: crypto.randomUUID(),
+      name: viewName,
+      state: currentState,
+      updatedAt: new Date().toISOString(),
+    };
+    setActiveViewId(view.id);
+    return persist(
+      [...views, view],
+      () => viewsBackend.save(tableId, view),
+      "No se pudo guardar la vista",
+    );
+  };
+
+  const replaceView = (view: SavedTableView, errorMessage: string) =>
+    persist(
+      views.map((item) => (item.id === view.id ? view : item)),
+      () => viewsBackend.save(tableId, view),
+      errorMessage,
+    );
+
+  // Only one default per table: unset the previous one
+  const toggleDefault = (view: SavedTableView) => {
+    const nextViews = views.map((item) =>
+      item.id === view.id
+        ? touch({ ...item, isDefault: !view.isDefault })
+        : item.isDefault
+          ? touch({ ...item, isDefault: false })
+          : item,
+    );
+    const changed = nextViews.filter((item, index) => item !== views[index]);
+    return persist(
+      nextViews,
+      () =>
+        Promise.all(changed.map((item) => viewsBackend.save(tableId, item))),
+      "No se pudo actualizar la vista predeterminada",
+    );
+  };
+
+  const deleteView = (view: SavedTableView) => {
+    if (view.id === activeViewId) setActiveViewId(null);
+    return persist(
+      views.filter((item) => item.id !== view.id),
+      () => viewsBackend.remove(tableId, view.id),
+      "No se pudo eliminar la vista",
+    );
+  };
+
+  const openNameDialog = (state: NameDialogState) => {
+    setName(state.mode === "rename" ? state.view.name : "");
+    setNameDialog(state);
+  };
+
+  const handleSubmitName = () => {
+    const viewName = name.trim();
+    if (!viewName || !nameDialog) return;
+    const duplicate = views.some(
+      (view) =>
+        view.name.toLowerCase() === viewName.toLowerCase() &&
+        (nameDialog.mode === "create" || view.id !== nameDialog.view.id),
+    );
+    if (duplicate) {
+      toast.error("Ya existe una vista con ese nombre");
+      return;
+    }
+
+    if (nameDialog.mode === "create") {
+      createView(viewName);
+    } else {
+      replaceView(
+        touch({ ...nameDialog.view, name: viewName }),
+        "No se pudo renombrar la vista",
+      );
+    }
+    setNameDialog(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="max-w-[220px]">
+            <Bookmark className="mr-2 size-4 shrink-0" />
+            <span className="truncate">
+              {activeView ? activeView.name : "Vistas"}
+            </span>
+            {isModified && (
+              <span className="ml-1 text-muted-foreground">*</span>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Vistas guardadas</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {views.length ? (
+            views.map((view) => (
+              <DropdownMenuItem key={view.id} onClick={() => applyView(view)}>
+                <Check
+                  className={
+                    view.id === activeViewId ? "opacity-100" : "opacity-0"
+                  }
+                />
+                <span className="truncate">{view.name}</span>
+                {view.isDefault && (
+                  <Star className="ml-auto fill-amber-400 text-amber-400" />
+                )}
+              </DropdownMenuItem>
+            ))
+          ) : (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">
+              No hay vistas guardadas
+            </p>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => openNameDialog({ mode: "create" })}>
+            <Plus />
+            Guardar vista actual...
+          </DropdownMenuItem>
+          {activeView && (
+            <>
+              <DropdownMenuItem
+                disabled={!isModified}
+                onClick={() =>
+                  replaceView(
+                    touch({ ...activeView, state: currentState }),
+                    "No se pudo actualizar la vista",
+                  )
+                }
+              >
+                <Save />
+                Actualizar "{activeView.name}"
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() =>
+                  openNameDialog({ mode: "rename", view: activeView })
+                }
+              >
+                <Pencil />
+                Renombrar...
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => toggleDefault(activeView)}>
+                {activeView.isDefault ? <StarOff /> : <Star />}
+                {activeView.isDefault
+                  ? "Quitar como predeterminada"
+                  : "Establecer como predeterminada"}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                variant="destructive"
+                onClick={() => deleteView(activeView)}
+              >
+                <Trash2 />
+                Eliminar vista
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={!!nameDialog}
+        onOpenChange={(open) => !open && setNameDialog(null)}
+      >
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>
+              {nameDialog?.mode === "rename"
+                ? "Renombrar vista"
+                : "Guardar vista"}
+            </DialogTitle>
+            <DialogDescription>
+              {nameDialog?.mode === "rename"
+                ? "Ingrese el nuevo nombre de la vista."
+                : "Se guardarán los filtros, el orden y las columnas visibles actuales."}
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="flex flex-col gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSubmitName();
+            }}
+          >
+            <Input
+              autoFocus
+              value={name}
+              maxLength={60}
+              placeholder="Ej.: Pendientes de esta semana"
+              onChange={(e) => setName(e.target.value)}
+            />
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setNameDialog(null)}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                Guardar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,147 @@
+import {
+  useCallback,
+  useLayoutEffect,
+  useRef,
+  useState,
+  type ComponentProps,
+  type ReactNode,
+  type RefObject,
+} from "react";
+import type { Row } from "@tanstack/react-table";
+import {
+  defaultRangeExtractor,
+  useVirtualizer,
+  type Range,
+} from "@tanstack/react-virtual";
+
+import { TableBody, TableRow } from "@/components/ui/table";
+import { useTableRowNavigation } from "@/hooks/useTableRowNavigation";
+
+export interface DataTableVirtualOptions {
+  // Initial guess per row; real heights are measured as rows render
+  estimateRowHeight?: number;
+  // Rows rendered above and below the visible area
+  overscan?: number;
+}
+
+interface DataTableVirtualBodyProps<TData> extends DataTableVirtualOptions {
+  rows: Row<TData>[];
+  // Element that scrolls vertically and contains the sticky header
+  scrollRef: RefObject<HTMLDivElement | null>;
+  columnCount: number;
+  // Header rows above the body, so `aria-rowindex` counts them
+  rowIndexOffset?: number;
+  renderRow: (row: Row<TData>, props: ComponentProps<"tr">) => ReactNode;
+  // Space on a focused row
+  onRowSelect?: (row: Row<TData>) => void;
+  // Enter on a focused row
+  onRowActivate?: (row: Row<TData>) => void;
+}
+
+// Spacer keeping the scroll height of the rows that are not rendered
+function SpacerRow({ height, colSpan }: { height: number; colSpan: number }) {
+  if (height <= 0) return null;
+  return (
+    <TableRow aria-hidden className="h-auto border-0 hover:bg-transparent">
+      <td colSpan={colSpan} style={{ height, padding: 0 }} />
+    </TableRow>
+  );
+}
+
+/**
+ * Table body that only renders the rows in view. Rows keep their real height
+ * (measured after render) and the focused row stays mounted while scrolled
+ * away, so arrow keys keep moving focus (see useTableRowNavigation).
+ */
+export function DataTableVirtualBody<TData>({
+  rows,
+  scrollRef,
+  columnCount,
+  rowIndexOffset = 1,
+  renderRow,
+  onRowSelect,
+  onRowActivate,
+  estimateRowHeight = 48,
+  overscan = 10,
+}: DataTableVirtualBodyProps<TData>) {
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
+  const [headerHeight, setHeaderHeight] = useState(0);
+
+  // Offset of the first row inside the scroll element (the sticky header)
+  useLayoutEffect(() => {
+    const body = bodyRef.current;
+    const scrollElement = scrollRef.current;
+    if (!body || !scrollElement) return;
+    setHeaderHeight(
+      body.getBoundingClientRect().top -
+        scrollElement.getBoundingClientRect().top +
+        scrollElement.scrollTop,
+    );
+  }, [scrollRef]);
+
+  const { activeIndex, getRowProps } = useTableRowNavigation({
+    rows,
+    bodyRef,
+    getPageSize: () =>
+      Math.floor(
+        ((scrollRef.current?.clientHeight ?? 0) - headerHeight) /
+          estimateRowHeight,
+      ),
+    // Declared below; only called from key handlers
+    scrollToIndex: (index): void => virtualizer.scrollToIndex(index),
+    onRowSelect,
+    onRowActivate,
+  });
+
+  const rangeExtractor = useCallback(
+    (range: Range) => {
+      const indexes = defaultRangeExtractor(range);
+      if (activeIndex < 0 || indexes.includes(activeIndex)) return indexes;
+      return [...indexes, activeIndex].sort((a, b) => a - b);
+    },
+    [activeIndex],
+  );
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => estimateRowHeight,
+    getItemKey: (index) => rows[index].id,
+    overscan,
+    rangeExtractor,
+    scrollMargin: headerHeight,
+    // Keep rows scrolled into view below the sticky header
+    scrollPaddingStart: headerHeight,
+  });
+
+  const items = virtualizer.getVirtualItems();
+  let offset = 0;
+
+  return (
+    <TableBody ref={bodyRef}>
+      {items.map((item) => {
+        const row = rows[item.index];
+        const gap = item.start - headerHeight - offset;
+        offset = item.end - headerHeight;
+        const rowProps: ComponentProps<"tr"> & { "data-index": number } = {
+          ...getRowProps(row, item.index),
+          ref: virtualizer.measureElement,
+          // Only part of the rows is in the DOM
+          "aria-rowindex": rowIndexOffset + item.index + 1,
+        };
+        return [
+          <SpacerRow
+            key={`spacer-${item.key}`}
+            height={gap}
+            colSpan={columnCount}
+          />,
+          renderRow(row, rowProps),
+        ];
+      })}
+      <SpacerRow
+        height={virtualizer.getTotalSize() - offset}
+        colSpan={columnCount}
+      />
+    </TableBody>
+  );
+}
@@ -0,0 +1,40 @@
+import { useMemo } from "react";
+
+import { getHighlightRanges } from "@/lib/table-search";
+import { cn } from "@/lib/utils";
+
+interface HighlightProps {
+  text: unknown;
+  // Usually the table's global filter: `table.getState().globalFilter`
+  query?: string;
+  className?: string;
+}
+
+// Marks the parts of `text` matching the search, ignoring accents and case
+export function Highlight({ text, query = "", className }: HighlightProps) {
+  const value = text === null || text === undefined ? "" : String(text);
+  const ranges = useMemo(
+    () => getHighlightRanges(value, query),
+    [value, query],
+  );
+  if (!ranges.length) return <>{value}</>;
+
+  return (
+    <>
+      {ranges.map(([start, end], index) => (
+        <span key={start}>
+          {value.slice(index ? ranges[index - 1][1] : 0, start)}
+          <mark
+            className={cn(
+              "rounded-sm bg-yellow-200 px-0.5 text-inherit",
+              className,
+            )}
+          >
+            {value.slice(start, end)}
+          </mark>
+        </span>
+      ))}
+      {value.slice(ranges[ranges.length - 1][1])}
+    </>
+  );
+}
@@ -0,0 +1,392 @@
+import { enUS } from "date-fns/locale";
+import ExcelJS from "exceljs";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+import {
+  buildCsvFile,
+  buildExcelFile,
+  buildFileInWorker,
+  buildPdfFile,
+  buildPrintHtml,
+  buildTsvFile,
+  rowsInChunks,
+  type ExportColumn,
+  type ExportSettings,
+  type ExportWorkerRequest,
+} from "./export.utils";
+
+interface Sale {
+  customer: string;
+  status: string;
+  amount: number;
+  date: Date;
+  paid: boolean;
+}
+
+// Fixed clock so timestamps and filenames never change between runs
+const settings: ExportSettings = { now: () => new Date(2024, 0, 15, 10, 30) };
+
+const columns: ExportColumn<Sale>[] = [
+  { key: "customer", header: "Cliente" },
+  { key: "status", header: "Estado" },
+  { key: "amount", header: "Importe", type: "currency", aggregate: "sum" },
+  { key: "date", header: "Fecha", type: "date" },
+  { key: "paid", header: "Pagado", type: "boolean" },
+];
+
+const data: Sale[] = [
+  {
+    customer: "Ana",
+    status: "Pendiente",
+    amount: 1500.5,
+    date: new Date(2024, 0, 2, 12),
+    paid: false,
+  },
+  {
+    customer: "Bruno",
+    status: "Pagado",
+    amount: 200,
+    date: new Date(2024, 0, 3, 12),
+    paid: true,
+  },
+  {
+    customer: "Ana",
+    status: "Pagado",
+    amount: 99.99,
+    date: new Date(2024, 0, 4, 12),
+    paid: true,
+  },
+  {
+    customer: 'Carla "CJ", S.A.',
+    status: "Pendiente",
+    amount: 10,
+    date: new Date(2024, 0, 5, 12),
+    paid: false,
+  },
+];
+
+const streamOptions = {
+  title: "Ventas",
+  filename: "ventas",
+  generatedBy: "Ana",
+  columns,
+  settings,
+};
+
+const baseOptions = { ...streamOptions, data };
+
+const loadWorksheet = async (blob: Blob) => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await blob.arrayBuffer());
+  return workbook.worksheets[0];
+};
+
+// Strings drawn with `Tj` in the (uncompressed, WinAnsi) jsPDF output, in order
+const getPdfText = async (blob: Blob) =>
+  Array.from(
+    new TextDecoder("latin1")
+      .decode(await blob.arrayBuffer())
+      .matchAll(/\(((?:\\.|[^\\)])*)\)\s*Tj/g),
+    ([, text]) => text,
+  );
+
+describe("delimited exports", () => {
+  it("builds the CSV with quoted fields and the settings filename", async () => {
+    const file = buildCsvFile(baseOptions);
+    expect(file.filename).toBe("ventas_20240115_1030.csv");
+    expect(file.mimeType).toBe("text/csv");
+    expect(await file.blob.text()).toMatchSnapshot();
+  });
+
+  it("builds the TSV with a BOM", async () => {
+    const file = buildTsvFile({ ...baseOptions, bom: true });
+    const bytes = new Uint8Array(await file.blob.arrayBuffer());
+    expect(Array.from(bytes.slice(0, 3))).toEqual([0xef, 0xbb, 0xbf]);
+    expect(await file.blob.text()).toMatchSnapshot();
+  });
+
+  it("uses the locale, labels and filename builder from the settings", async () => {
+    const file = buildCsvFile({
+      ...baseOptions,
+      settings: {
+        ...settings,
+        locale: enUS,
+        numberLocale: "en-US",
+        dateFormat: "MM/dd/yyyy",
+        labels: { yes: "Yes", no: "No" },
+        buildFilename: (base, extension, now) =>
+          `${base}-${now.getFullYear()}.${extension}`,
+      },
+    });
+    expect(file.filename).toBe("ventas-2024.csv");
+    expect(await file.blob.text()).toMatchSnapshot();
+  });
+});
+
+describe("print export", () => {
+  it("renders the report with group subtotals and the total", () => {
+    expect(
+      buildPrintHtml({
+        ...baseOptions,
+        subtitle: "Enero",
+        filterSummary: ["Estado: Todos"],
+        groupBy: "customer",
+        pageBreakBetweenGroups: true,
+        template: { companyName: "ACME <SA>", colors: { accent: [200, 0, 0] } },
+      }),
+    ).toMatchSnapshot();
+  });
+
+  it("keeps template values from injecting into the style block", () => {
+    const html = buildPrintHtml({
+      ...baseOptions,
+      template: {
+        companyName: "</style><script>alert(1)</script>",
+        font: { family: "x; } body { display: none", size: NaN },
+        margins: { top: "1mm; color: red" as unknown as number },
+        colors: { accent: [300, -5, 12.4] },
+        pageSize: "a4; x" as "a4",
+      },
+    });
+    const style = html.slice(html.indexOf("<style>"), html.indexOf("</style>"));
+
+    expect(html.match(/<\/style>/g)).toHaveLength(1);
+    expect(style).not.toContain("<script>");
+    expect(style).toContain("size: a4 portrait;");
+    expect(style).toContain("margin: 0mm 14mm 20mm 14mm;");
+    expect(style).toContain(
+      'font: 10pt "x; } body { display: none", Helvetica, Arial, sans-serif;',
+    );
+    expect(style).toContain("background: rgb(255, 0, 12);");
+  });
+});
+
+describe("PDF export", () => {
+  it("draws the header, rows, subtotals and footer", async () => {
+    const file = await buildPdfFile({
+      ...baseOptions,
+      subtitle: "Enero",
+      groupBy: "customer",
+      template: { companyName: "ACME SA" },
+    });
+    expect(file.filename).toBe("ventas_20240115_1030.pdf");
+    expect(file.mimeType).toBe("application/pdf");
+    expect(await getPdfText(file.blob)).toMatchSnapshot();
+  });
+});
+
+describe("Excel export", () => {
+  it("writes the title, frozen header, auto-filter and total formula", async () => {
+    const file = await buildExcelFile(baseOptions);
+    expect(file.filename).toBe("ventas_20240115_1030.xlsx");
+    const worksheet = await loadWorksheet(file.blob);
+
+    expect(worksheet.getCell("A1").value).toBe("Ventas");
+    expect(worksheet.getCell("A2").value).toBe(
+      "Generado por: Ana | Fecha: 15/01/2024 10:30",
+    );
+    expect(worksheet.getRow(4).values).toEqual([
+      undefined,
+      "Cliente",
+      "Estado",
+      "Importe",
+      "Fecha",
+      "Pagado",
+    ]);
+    expect(worksheet.views[0]).toMatchObject({ state: "frozen", ySplit: 4 });
+    expect(worksheet.autoFilter).toBe("A4:E8");
+    // Native cell types, not text
+    expect(worksheet.getCell("C5").value).toBe(1500.5);
+    expect(worksheet.getCell("D5").value).toBeInstanceOf(Date);
+    expect(worksheet.getCell("E6").value).toBe(true);
+    expect(worksheet.getCell("C9").value).toEqual({
+      formula: "SUM(C5:C8)",
+      result: 1810.49,
+    });
+  });
+
+  it("fits the columns to the formatted cell text", async () => {
+    const worksheet = await loadWorksheet(
+      (await buildExcelFile(baseOptions)).blob,
+    );
+
+    // 'Carla "CJ", S.A.', "$ 1.810,49" (total formula), "02/01/2024"
+    expect(worksheet.getColumn(1).width).toBe(18);
+    expect(worksheet.getColumn(3).width).toBe(12);
+    expect(worksheet.getColumn(4).width).toBe(12);
+    expect(worksheet.getColumn(5).width).toBe(10);
+  });
+
+  it("nests grouped rows as outline levels with SUBTOTAL rows", async () => {
+    const file = await buildExcelFile({
+      ...baseOptions,
+      groupBy: ["customer", "status"],
+    });
+    const worksheet = await loadWorksheet(file.blob);
+    const rows: [unknown, number | undefined, unknown][] = [];
+    worksheet.eachRow((row, number) => {
+      if (number > 4) {
+        rows.push([
+          row.getCell(1).value,
+          row.outlineLevel,
+          row.getCell(3).value,
+        ]);
+      }
+    });
+
+    expect(worksheet.properties.outlineProperties).toEqual({
+      summaryBelow: true,
+      summaryRight: false,
+    });
+    expect(rows).toEqual([
+      ["Ana", 2, 1500.5],
+      [
+        "Subtotal Pendiente",
+        1,
+        { formula: "SUBTOTAL(9,C5:C5)", result: 1500.5 },
+      ],
+      ["Ana", 2, 99.99],
+      ["Subtotal Pagado", 1, { formula: "SUBTOTAL(9,C7:C7)", result: 99.99 }],
+      ["Subtotal Ana", 0, { formula: "SUBTOTAL(9,C5:C8)", result: 1600.49 }],
+      ["Bruno", 2, 200],
+      ["Subtotal Pagado", 1, { formula: "SUBTOTAL(9,C10:C10)", result: 200 }],
+      ["Subtotal Bruno", 0, { formula: "SUBTOTAL(9,C10:C11)", result: 200 }],
+      ['Carla "CJ", S.A.', 2, 10],
+      ["Subtotal Pendiente", 1, { formula: "SUBTOTAL(9,C13:C13)", result: 10 }],
+      [
+        'Subtotal Carla "CJ", S.A.',
+        0,
+        { formula: "SUBTOTAL(9,C13:C14)", result: 10 },
+      ],
+      ["Total", 0, { formula: "SUBTOTAL(9,C5:C15)", result: 1810.49 }],
+    ]);
+  });
+
+  it("adds a header row per group when no column has an aggregate", async () => {
+    const file = await buildExcelFile({
+      ...baseOptions,
+      columns: columns.map(({ aggregate: _aggregate, ...column }) => column),
+      groupBy: "customer",
+    });
+    const worksheet = await loadWorksheet(file.blob);
+
+    expect(worksheet.properties.outlineProperties).toEqual({
+      summaryBelow: false,
+      summaryRight: false,
+    });
+    expect(worksheet.getCell("A5").value).toBe("Cliente: Ana (2)");
+    expect(worksheet.getRow(5).outlineLevel).toBe(0);
+    expect(worksheet.getRow(6).outlineLevel).toBe(1);
+  });
+});
+
+describe("worker export", () => {
+  // Runs export.worker.ts in this thread: requests are cloned like
+  // postMessage does, so rows that can't reach a real worker fail here too
+  beforeAll(async () => {
+    const scope: { onmessage?: (event: { data: unknown }) => void } = {};
+    let worker: { onmessage?: (event: { data: unknown }) => void } | null =
+      null;
+    vi.stubGlobal(
+      "self",
+      Object.assign(scope, {
+        postMessage: (data: unknown) => worker?.onmessage?.({ data }),
+      }),
+    );
+    vi.stubGlobal(
+      "Worker",
+      class {
+        onmessage?: (event: { data: unknown }) => void;
+        constructor() {
+          worker = this;
+        }
+        postMessage(data: unknown) {
+          setTimeout(() => scope.onmessage?.({ data: structuredClone(data) }));
+        }
+        terminate() {}
+      },
+    );
+    await import("./export.worker");
+  });
+
+  afterEach(() => vi.clearAllMocks());
+
+  it("builds the same CSV as the main thread and reports progress", async () => {
+    const onProgress = vi.fn();
+    const file = await buildFileInWorker({
+      ...streamOptions,
+      format: "csv",
+      rows: rowsInChunks(data, 3),
+      total: data.length,
+      onProgress,
+    });
+
+    expect(file.filename).toBe("ventas_20240115_1030.csv");
+    expect(await file.blob.text()).toBe(
+      await buildCsvFile(baseOptions).blob.text(),
+    );
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { processed: 0, total: 4, stage: "rows" },
+      { processed: 3, total: 4, stage: "rows" },
+      { processed: 4, total: 4, stage: "rows" },
+      { processed: 4, total: 4, stage: "writing" },
+    ]);
+  });
+
+  it("builds the Excel file with the grouping", async () => {
+    const file = await buildFileInWorker({
+      ...streamOptions,
+      format: "excel",
+      groupBy: "customer",
+      rows: rowsInChunks(data),
+    });
+    const worksheet = await loadWorksheet(file.blob);
+
+    expect(worksheet.getCell("A7").value).toBe("Subtotal Ana");
+    expect(worksheet.getCell("C7").value).toEqual({
+      formula: "SUBTOTAL(9,C5:C6)",
+      result: 1600.49,
+    });
+  });
+
+  it("stops sending rows once the worker fails", async () => {
+    const postMessage = vi
+      .spyOn(Worker.prototype, "postMessage")
+      .mockImplementation(function (this: Worker, message) {
+        if ((message as ExportWorkerRequest).type === "rows") {
+          this.onerror?.({ message: "Sin memoria" } as ErrorEvent);
+        }
+      });
+    let pulled = 0;
+    async function* pages() {
+      for (const row of data) {
+        pulled++;
+        yield [row];
+      }
+    }
+
+    await expect(
+      buildFileInWorker({ ...streamOptions, format: "csv", rows: pages() }),
+    ).rejects.toThrow("Sin memoria");
+    expect(pulled).toBe(2);
+    expect(
+      postMessage.mock.calls.filter(
+        ([message]) => (message as ExportWorkerRequest).type === "rows",
+      ),
+    ).toHaveLength(1);
+    postMessage.mockRestore();
+  });
+
+  it("stops when the signal is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("cancelado"));
+    await expect(
+      buildFileInWorker({
+        ...streamOptions,
+        format: "csv",
+        rows: rowsInChunks(data),
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow("cancelado");
+  });
+});
@@ -1,156 +1,1886 @@
-import { format } from "date-fns";
+import { format, type Locale } from "date-fns";
+import { es } from "date-fns/locale";
+import ExcelJS from "exceljs";
 import jsPDF from "jspdf";
-import autoTable from "jspdf-autotable";
+import autoTable, { type CellDef } from "jspdf-autotable";
+
+export type ExportColumnType =
+  "text" | "number" | "currency" | "date" | "percent" | "boolean";
+
+export type ExportCellValue =
+  string | number | boolean | Date | null | undefined;
+
+export type ExportAggregate = "sum" | "avg" | "min" | "max" | "count";
+
+export type ExportRow = ExportCellValue[] | Record<string, unknown>;
+
+export interface ExportColumn<TRow = ExportRow> {
+  key: string;
+  header: string;
+  // Reads the value from the row. Defaults to `row[key]` (or position).
+  accessor?: (row: TRow) => unknown;
+  type?: ExportColumnType;
+  // Excel column width in characters. Auto-fit when omitted.
+  width?: number;
+  align?: "left" | "center" | "right";
+  // Decimal places for number, currency and percent columns
+  decimals?: number;
+  // Text used by PDF/CSV. Excel keeps the native value and uses numFmt instead.
+  formatter?: (value: unknown, row: TRow) => string;
+  // Excel number format override, e.g. '"US$" #,##0.00'
+  numFmt?: string;
+  // Rendered in the totals footer (and group subtotals when `groupBy` is set)
+  aggregate?: ExportAggregate;
+}
+
+export type RgbColor = [number, number, number];
+
+export interface ReportTemplate {
+  companyName?: string;
+  // PNG/JPEG/SVG data URL or raw SVG markup. SVG is rasterized before drawing.
+  logo?: string;
+  // Logo box in mm
+  logoSize?: { width: number; height: number };
+  colors?: {
+    accent?: RgbColor;
+    accentText?: RgbColor;
+    text?: RgbColor;
+    muted?: RgbColor;
+    subtotal?: RgbColor;
+  };
+  font?: {
+    // jsPDF core font (helvetica, times, courier) or a custom family
+    family: string;
+    size?: number;
+    // Base64 TTF files, required for custom families
+    files?: { normal: string; bold?: string };
+  };
+  orientation?: "portrait" | "landscape";
+  pageSize?: "a4" | "letter" | "legal";
+  // Page margins in mm
+  margins?: { top?: number; right?: number; bottom?: number; left?: number };
+}
 
-interface ExportPdfOptions {
+export interface ExportLabels {
+  generatedBy: string;
+  date: string;
+  // Supports the {page} and {pages} placeholders
+  page: string;
+  total: string;
+  subtotal: string;
+  yes: string;
+  no: string;
+  sheet: string;
+  summarySheet: string;
+  summarySheetColumn: string;
+  summaryRowsColumn: string;
+}
+
+export interface ExportSettings {
+  // Clock for the report timestamp and filename (inject a fixed date in tests)
+  now?: () => Date;
+  // date-fns locale for date text. Defaults to `es`.
+  locale?: Locale;
+  // Intl locale for numbers. Defaults to `locale.code`, or "es-AR".
+  numberLocale?: string;
+  currencySymbol?: string;
+  // date-fns patterns for cell dates and the report timestamp
+  dateFormat?: string;
+  dateTimeFormat?: string;
+  excelDateFormat?: string;
+  labels?: Partial<ExportLabels>;
+  // Defaults to `${base}_${yyyyMMdd_HHmm}.${extension}`
+  buildFilename?: (base: string, extension: string, now: Date) => string;
+}
+
+// Resolved settings used by the writers. Serializable (minus `locale`) so it
+// can be sent to the export worker.
+export interface ExportFormatting {
+  now: Date;
+  // Report timestamp, already formatted with `dateTimeFormat`
+  timestamp: string;
+  locale?: Locale;
+  numberLocale: string;
+  currencySymbol: string;
+  dateFormat: string;
+  excelDateFormat: string;
+  labels: ExportLabels;
+}
+
+const DEFAULT_EXPORT_LABELS: ExportLabels = {
+  generatedBy: "Generado por",
+  date: "Fecha",
+  page: "Página {page} de {pages}",
+  total: "Total",
+  subtotal: "Subtotal",
+  yes: "Sí",
+  no: "No",
+  sheet: "Reporte",
+  summarySheet: "Resumen",
+  summarySheetColumn: "Hoja",
+  summaryRowsColumn: "Registros",
+};
+
+interface ExportPdfOptions<TRow = ExportRow> {
   title: string;
   filename: string;
   generatedBy: string;
-  columns: string[];
-  data: string[][];
+  // Plain headers (legacy) read the row by position; typed columns by `key`.
+  columns: (string | ExportColumn<TRow>)[];
+  data: TRow[];
+  // Column key(s) used to split rows into groups with their own subtotal row.
+  // Excel nests several keys as collapsible outline levels; PDF and print
+  // group by the first one.
+  groupBy?: string | string[];
+  subtitle?: string;
+  // One line per active filter, e.g. "Estado: Pendiente"
+  filterSummary?: string[];
+  // Overrides the app-wide template set with `setReportTemplate`
+  template?: ReportTemplate;
+  // Overrides the app-wide settings set with `setExportSettings`
+  settings?: ExportSettings;
 }
 
-export const exportToPdf = ({
+let appReportTemplate: ReportTemplate = {};
+let appExportSettings: ExportSettings = {};
+
+// Call once at startup (or per tenant) to set locale, labels and filenames
+export const setExportSettings = (settings: ExportSettings) => {
+  appExportSettings = settings;
+};
+
+const resolveExportSettings = (settings: ExportSettings = {}) => {
+  const { labels, ...merged } = { ...appExportSettings, ...settings };
+  const now = (merged.now ?? (() => new Date()))();
+  const locale = merged.locale ?? es;
+
+  const formatting: ExportFormatting = {
+    now,
+    timestamp: format(now, merged.dateTimeFormat ?? "dd/MM/yyyy HH:mm", {
+      locale,
+    }),
+    locale,
+    numberLocale:
+      merged.numberLocale ?? (merged.locale ? merged.locale.code : "es-AR"),
+    currencySymbol: merged.currencySymbol ?? "$",
+    dateFormat: merged.dateFormat ?? "dd/MM/yyyy",
+    excelDateFormat: merged.excelDateFormat ?? "dd/mm/yyyy",
+    labels: {
+      ...DEFAULT_EXPORT_LABELS,
+      ...appExportSettings.labels,
+      ...labels,
+    },
+  };
+
+  const buildFilename = (base: string, extension: string) =>
+    merged.buildFilename
+      ? merged.buildFilename(base, extension, now)
+      : `${base}_${format(now, "yyyyMMdd_HHmm")}.${extension}`;
+
+  return { formatting, buildFilename };
+};
+
+const formatLabel = (label: string, values: Record<string, string | number>) =>
+  label.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match,
+  );
+
+const getGeneratedByText = (
+  generatedBy: string,
+  { labels, timestamp }: ExportFormatting,
+) => `${labels.generatedBy}: ${generatedBy} | ${labels.date}: ${timestamp}`;
+
+// Call once at startup so every export shares the same branding
+export const setReportTemplate = (template: ReportTemplate) => {
+  appReportTemplate = template;
+};
+
+const resolveReportTemplate = (template: ReportTemplate = {}) => {
+  const base = appReportTemplate;
+  return {
+    companyName: template.companyName ?? base.companyName,
+    logo: template.logo ?? base.logo,
+    logoSize: template.logoSize ?? base.logoSize ?? { width: 30, height: 12 },
+    colors: {
+      accent: [41, 128, 185] as RgbColor,
+      accentText: [255, 255, 255] as RgbColor,
+      text: [0, 0, 0] as RgbColor,
+      muted: [100, 100, 100] as RgbColor,
+      subtotal: [236, 240, 241] as RgbColor,
+      ...base.colors,
+      ...template.colors,
+    },
+    font: { family: "helvetica", size: 10, ...base.font, ...template.font },
+    orientation: template.orientation ?? base.orientation ?? "portrait",
+    pageSize: template.pageSize ?? base.pageSize ?? "a4",
+    margins: {
+      top: 20,
+      right: 14,
+      bottom: 20,
+      left: 14,
+      ...base.margins,
+      ...template.margins,
+    },
+  };
+};
+
+const toArgb = ([red, green, blue]: RgbColor) =>
+  `FF${[red, green, blue]
+    .map((channel) => channel.toString(16).padStart(2, "0"))
+    .join("")}`.toUpperCase();
+
+const rasterizeSvg = (src: string, width: number, height: number) =>
+  new Promise<string>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      // Render at 4x the mm box so the logo stays sharp when printed
+      const canvas = document.createElement("canvas");
+      canvas.width = width * 4 * 3.78;
+      canvas.height = height * 4 * 3.78;
+      const context = canvas.getContext("2d");
+      if (!context) return reject(new Error("Canvas 2D no disponible"));
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/png"));
+    };
+    image.onerror = () => reject(new Error("No se pudo cargar el logo"));
+    image.src = src;
+  });
+
+const toLogoSrc = (logo: string) =>
+  logo.trim().startsWith("<svg")
+    ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(logo)}`
+    : logo;
+
+const loadLogo = async (
+  logo: string,
+  size: { width: number; height: number },
+) => {
+  logo = toLogoSrc(logo);
+  if (logo.startsWith("data:image/svg+xml")) {
+    return {
+      data: await rasterizeSvg(logo, size.width, size.height),
+      format: "PNG",
+    };
+  }
+  return {
+    data: logo,
+    format: /^data:image\/jpe?g/.test(logo) ? "JPEG" : "PNG",
+  };
+};
+
+const NUMERIC_TYPES: ExportColumnType[] = ["number", "currency", "percent"];
+
+const normalizeColumns = <TRow>(
+  columns: (string | ExportColumn<TRow>)[],
+): ExportColumn<TRow>[] =>
+  columns.map((column, index) =>
+    typeof column === "string"
+      ? { key: String(index), header: column, type: "text" }
+      : column,
+  );
+
+const getCellValue = <TRow>(
+  row: TRow,
+  column: ExportColumn<TRow>,
+  index: number,
+): unknown => {
+  if (column.accessor) return column.accessor(row);
+  return Array.isArray(row)
+    ? row[index]
+    : (row as Record<string, unknown>)[column.key];
+};
+
+const toDate = (value: unknown) => {
+  if (value instanceof Date) return value;
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+const toNumber = (value: unknown) => {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return isNaN(parsed) ? null : parsed;
+  }
+  return null;
+};
+
+const getColumnAlign = <TRow>(column: ExportColumn<TRow>) => {
+  if (column.align) return column.align;
+  if (NUMERIC_TYPES.includes(column.type ?? "text")) return "right";
+  if (column.type === "boolean" || column.type === "date") return "center";
+  return "left";
+};
+
+// Human readable text for PDF and delimited exports
+const formatCellText = <TRow>(
+  value: unknown,
+  column: ExportColumn<TRow>,
+  row: TRow,
+  formatting: ExportFormatting,
+): string => {
+  if (column.formatter) return column.formatter(value, row);
+  return formatValueText(value, column, formatting);
+};
+
+const formatValueText = <TRow>(
+  value: unknown,
+  column: ExportColumn<TRow>,
+  formatting: ExportFormatting,
+): string => {
+  if (value === null || value === undefined || value === "") return "";
+
+  switch (column.type) {
+    case "number":
+    case "currency":
+    case "percent": {
+      const number = toNumber(value);
+      if (number === null) return String(value);
+      const text = new Intl.NumberFormat(formatting.numberLocale, {
+        style: column.type === "percent" ? "percent" : "decimal",
+        minimumFractionDigits:
+          column.decimals ?? (column.type === "number" ? 0 : 2),
+        maximumFractionDigits: column.decimals ?? 2,
+      }).format(number);
+      return column.type === "currency"
+        ? `${formatting.currencySymbol} ${text}`
+        : text;
+    }
+    case "date": {
+      const date = toDate(value);
+      return date
+        ? format(date, formatting.dateFormat, { locale: formatting.locale })
+        : String(value);
+    }
+    case "boolean":
+      return value ? formatting.labels.yes : formatting.labels.no;
+    default:
+      return String(value);
+  }
+};
+
+// Native cell value for ExcelJS so numbers and dates stay sortable/summable
+const toExcelValue = <TRow>(
+  value: unknown,
+  column: ExportColumn<TRow>,
+  row: TRow,
+): ExportCellValue => {
+  if (value === null || value === undefined || value === "") return null;
+
+  switch (column.type) {
+    case "number":
+    case "currency":
+    case "percent":
+      return toNumber(value) ?? String(value);
+    case "date":
+      return toDate(value) ?? String(value);
+    case "boolean":
+      return Boolean(value);
+    default:
+      return column.formatter ? column.formatter(value, row) : String(value);
+  }
+};
+
+const getExcelNumFmt = <TRow>(
+  column: ExportColumn<TRow>,
+  formatting: ExportFormatting,
+) => {
+  if (column.numFmt) return column.numFmt;
+  const decimals = column.decimals ?? 2;
+  const fraction = decimals > 0 ? `.${"0".repeat(decimals)}` : "";
+
+  switch (column.type) {
+    case "number":
+      return column.decimals === undefined ? undefined : `#,##0${fraction}`;
+    case "currency":
+      return `"${formatting.currencySymbol}" #,##0${fraction}`;
+    case "percent":
+      return `0${fraction}%`;
+    case "date":
+      return formatting.excelDateFormat;
+    default:
+      return undefined;
+  }
+};
+
+const EXCEL_AGGREGATE_FUNCTIONS: Record<
+  ExportAggregate,
+  { name: string; subtotal: number }
+> = {
+  sum: { name: "SUM", subtotal: 9 },
+  avg: { name: "AVERAGE", subtotal: 1 },
+  min: { name: "MIN", subtotal: 5 },
+  max: { name: "MAX", subtotal: 4 },
+  count: { name: "COUNTA", subtotal: 3 },
+};
+
+const hasAggregates = <TRow>(columns: ExportColumn<TRow>[]) =>
+  columns.some((column) => !!column.aggregate);
+
+const computeAggregate = <TRow>(
+  rows: TRow[],
+  column: ExportColumn<TRow>,
+  index: number,
+): number | null => {
+  const values = rows
+    .map((row) => getCellValue(row, column, index))
+    .filter((value) => value !== null && value !== undefined && value !== "");
+  if (column.aggregate === "count") return values.length;
+
+  const numbers = values
+    .map(toNumber)
+    .filter((value): value is number => value !== null);
+  if (!numbers.length) return null;
+
+  switch (column.aggregate) {
+    case "sum":
+      return numbers.reduce((total, value) => total + value, 0);
+    case "avg":
+      return (
+        numbers.reduce((total, value) => total + value, 0) / numbers.length
+      );
+    case "min":
+      return Math.min(...numbers);
+    case "max":
+      return Math.max(...numbers);
+    default:
+      return null;
+  }
+};
+
+const formatAggregateText = <TRow>(
+  value: number | null,
+  column: ExportColumn<TRow>,
+  formatting: ExportFormatting,
+) => {
+  if (value === null) return "";
+  if (column.aggregate === "count") return String(value);
+  return formatValueText(value, column, formatting);
+};
+
+// Rows keep their original order inside each group; groups follow the order
+// in which their value first appears.
+const groupRows = <TRow>(
+  rows: TRow[],
+  columns: ExportColumn<TRow>[],
+  formatting: ExportFormatting,
+  groupBy?: string,
+) => {
+  const index = columns.findIndex((column) => column.key === groupBy);
+  if (index === -1) return [{ label: "", rows }];
+
+  const column = columns[index];
+  const groups = new Map<string, TRow[]>();
+  rows.forEach((row) => {
+    const label = formatCellText(
+      getCellValue(row, column, index),
+      column,
+      row,
+      formatting,
+    );
+    groups.set(label, [...(groups.get(label) ?? []), row]);
+  });
+  return Array.from(groups, ([label, groupRows]) => ({
+    label,
+    rows: groupRows,
+  }));
+};
+
+// Grouping columns in `groupBy` order, skipping keys that aren't exported
+const getGroupColumns = <TRow>(
+  columns: ExportColumn<TRow>[],
+  groupBy: string | string[] = [],
+) =>
+  (Array.isArray(groupBy) ? groupBy : [groupBy]).flatMap((key) =>
+    columns.filter((column) => column.key === key),
+  );
+
+const buildPdfAggregateRow = <TRow>(
+  label: string,
+  rows: TRow[],
+  columns: ExportColumn<TRow>[],
+  formatting: ExportFormatting,
+  fillColor?: RgbColor,
+): CellDef[] =>
+  columns.map((column, index) => ({
+    content: column.aggregate
+      ? formatAggregateText(
+          computeAggregate(rows, column, index),
+          column,
+          formatting,
+        )
+      : index === 0
+        ? label
+        : "",
+    styles: {
+      halign: column.aggregate ? getColumnAlign(column) : "left",
+      fontStyle: "bold",
+      ...(fillColor && { fillColor }),
+    },
+  }));
+
+export const buildPdfFile = async <TRow = ExportRow>({
   title,
   filename,
   generatedBy,
   columns,
   data,
-}: ExportPdfOptions) => {
-  const doc = new jsPDF();
+  groupBy,
+  subtitle,
+  filterSummary = [],
+  template,
+  settings,
+}: ExportPdfOptions<TRow>) => {
+  const { formatting, buildFilename } = resolveExportSettings(settings);
+  const { labels } = formatting;
+  const exportColumns = normalizeColumns(columns);
+  const showTotals = hasAggregates(exportColumns);
+  const groupKey = getGroupColumns(exportColumns, groupBy)[0]?.key;
+  const groups = groupRows(data, exportColumns, formatting, groupKey);
+  const showSubtotals = showTotals && !!groupKey;
+  const { companyName, logo, logoSize, colors, font, margins, ...page } =
+    resolveReportTemplate(template);
+
+  const doc = new jsPDF({
+    orientation: page.orientation,
+    unit: "mm",
+    format: page.pageSize,
+  });
+  // Same clock as the footer so the document is reproducible
+  doc.setCreationDate(formatting.now);
+
+  if (font.files) {
+    doc.addFileToVFS(`${font.family}-normal.ttf`, font.files.normal);
+    doc.addFont(`${font.family}-normal.ttf`, font.family, "normal");
+    if (font.files.bold) {
+      doc.addFileToVFS(`${font.family}-bold.ttf`, font.files.bold);
+      doc.addFont(`${font.family}-bold.ttf`, font.family, "bold");
+    }
+  }
 
   const pageWidth = doc.internal.pageSize.width;
   const pageHeight = doc.internal.pageSize.height;
+  const contentWidth = pageWidth - margins.left - margins.right;
 
   // --- Header ---
-  // Logo (Text substitute for now, assuming logo.svg might be tricky to load reliably in strict environment)
-  doc.setFontSize(16);
-  doc.setFont("helvetica", "bold");
-  doc.text(title || "App Report", 14, 20);
-
-  // Title
-  doc.setFontSize(14);
-  doc.setFont("helvetica", "normal");
-  doc.text(title, 14, 30);
-
-  // Date in Header? User asked for Date in Footer.
-  // We can draw a line
+  // A logo that fails to load should not block the report
+  const logoImage = logo
+    ? await loadLogo(logo, logoSize).catch(() => null)
+    : null;
+  if (logoImage) {
+    doc.addImage(
+      logoImage.data,
+      logoImage.format,
+      margins.left,
+      margins.top,
+      logoSize.width,
+      logoSize.height,
+    );
+  }
+
+  const textX = logoImage ? margins.left + logoSize.width + 4 : margins.left;
+  let cursorY = margins.top + 6;
+  doc.setTextColor(...colors.text);
+
+  if (companyName) {
+    doc.setFontSize(16);
+    doc.setFont(font.family, "bold");
+    doc.text(companyName, textX, cursorY);
+    cursorY += 7;
+  }
+
+  // Title (bold when it is the only heading)
+  doc.setFontSize(companyName ? 14 : 16);
+  doc.setFont(font.family, companyName ? "normal" : "bold");
+  doc.text(title, textX, cursorY);
+  cursorY = Math.max(
+    cursorY + 6,
+    logoImage ? margins.top + logoSize.height + 4 : 0,
+  );
+
+  if (subtitle) {
+    doc.setFontSize(11);
+    doc.setFont(font.family, "normal");
+    doc.text(subtitle, margins.left, cursorY);
+    cursorY += 6;
+  }
+
+  if (filterSummary.length) {
+    doc.setFontSize(9);
+    doc.setFont(font.family, "normal");
+    doc.setTextColor(...colors.muted);
+    filterSummary.forEach((line) => {
+      const wrapped: string[] = doc.splitTextToSize(line, contentWidth);
+      doc.text(wrapped, margins.left, cursorY);
+      cursorY += wrapped.length * 4.5;
+    });
+    cursorY += 1;
+  }
+
+  doc.setDrawColor(...colors.accent);
   doc.setLineWidth(0.5);
-  doc.line(14, 35, pageWidth - 14, 35);
+  doc.line(margins.left, cursorY, pageWidth - margins.right, cursorY);
 
   // --- Table ---
   autoTable(doc, {
-    startY: 40,
-    head: [columns],
-    body: data,
-    styles: { fontSize: 10 },
-    headStyles: { fillColor: [41, 128, 185] }, // Example blue color
-    margin: { top: 40, bottom: 30 },
-    didDrawPage: () => {
-      // Logic for repetitive header if needed (autoTable handles it)
+    startY: cursorY + 5,
+    head: [exportColumns.map((column) => column.header)],
+    body: groups.flatMap((group) => [
+      ...group.rows.map((row) =>
+        exportColumns.map((column, index) =>
+          formatCellText(
+            getCellValue(row, column, index),
+            column,
+            row,
+            formatting,
+          ),
+        ),
+      ),
+      ...(showSubtotals
+        ? [
+            buildPdfAggregateRow(
+              `${labels.subtotal} ${group.label}`,
+              group.rows,
+              exportColumns,
+              formatting,
+              colors.subtotal,
+            ),
+          ]
+        : []),
+    ]),
+    foot: showTotals
+      ? [buildPdfAggregateRow(labels.total, data, exportColumns, formatting)]
+      : undefined,
+    showFoot: "lastPage",
+    styles: {
+      font: font.family,
+      fontSize: font.size,
+      textColor: colors.text,
+    },
+    columnStyles: Object.fromEntries(
+      exportColumns.map((column, index) => [
+        index,
+        { halign: getColumnAlign(column) },
+      ]),
+    ),
+    headStyles: { fillColor: colors.accent, textColor: colors.accentText },
+    footStyles: { fillColor: colors.accent, textColor: colors.accentText },
+    // Leave room for the footer drawn below
+    margin: {
+      top: margins.top,
+      right: margins.right,
+      bottom: margins.bottom + 10,
+      left: margins.left,
     },
   });
 
   // --- Footer ---
   const pageCount = doc.getNumberOfPages();
+  const footerY = pageHeight - margins.bottom / 2;
   for (let i = 1; i <= pageCount; i++) {
     doc.setPage(i);
 
     doc.setFontSize(8);
-    doc.setTextColor(100);
+    doc.setFont(font.family, "normal");
+    doc.setTextColor(...colors.muted);
 
-    const now = format(new Date(), "dd/MM/yyyy HH:mm");
-    const footerY = pageHeight - 10;
+    // Left: who generated the report and when
+    const footerText = [
+      companyName,
+      getGeneratedByText(generatedBy, formatting),
+    ]
+      .filter(Boolean)
+      .join(" | ");
+    doc.text(footerText, margins.left, footerY);
 
-    // Left: Generated By
-    doc.text(`Generado por: ${generatedBy}`, 14, footerY);
+    // Right: Page X of Y
+    doc.text(
+      formatLabel(labels.page, { page: i, pages: pageCount }),
+      pageWidth - margins.right,
+      footerY,
+      {
+        align: "right",
+      },
+    );
+  }
 
-    // Center: Date
-    // doc.text(`Fecha: ${now}`, pageWidth / 2, footerY, { align: "center" });
-    // Let's put date next to generated by or separate?
-    // User: "Quien genero el reporte, fecha y hora del reporte, pagina X de X"
+  return toExportFile(
+    doc.output("blob"),
+    buildFilename(filename, "pdf"),
+    "application/pdf",
+  );
+};
 
-    const footerText = `Generado por: ${generatedBy} | Fecha: ${now}`;
-    doc.text(footerText, 14, footerY);
+export const exportToPdf = async <TRow = ExportRow>(
+  options: ExportPdfOptions<TRow>,
+) => downloadExportFile(await buildPdfFile(options));
 
-    // Right: Page X of Y
-    doc.text(`Página ${i} de ${pageCount}`, pageWidth - 14, footerY, {
-      align: "right",
-    });
-  }
+interface ExportPrintOptions<TRow = ExportRow> extends Omit<
+  ExportPdfOptions<TRow>,
+  "filename"
+> {
+  // Start every `groupBy` group on a new page
+  pageBreakBetweenGroups?: boolean;
+}
 
-  doc.save(`${filename}_${format(new Date(), "yyyyMMdd_HHmm")}.pdf`);
+const HTML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
 };
 
-import ExcelJS from "exceljs";
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+
+// Template values come from app config or user settings; only plain numbers
+// and quoted strings reach the <style> block so none of them can inject CSS
+const toCssNumber = (value: unknown, fallback = 0) =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+const toCssColor = (color: RgbColor) =>
+  `rgb(${color
+    .map((channel) =>
+      Math.min(255, Math.max(0, Math.round(toCssNumber(channel)))),
+    )
+    .join(", ")})`;
 
-export const exportToExcel = async ({
+// `<` and `>` are hex-escaped so a value can't close the <style> element
+const toCssString = (text: string) =>
+  `"${text
+    .replace(/\s+/g, " ")
+    .replace(/["\\]/g, "\\$&")
+    .replace(/[<>]/g, (char) => (char === "<" ? "\\3c " : "\\3e "))}"`;
+
+const PRINT_PAGE_SIZES = ["a4", "letter", "legal"];
+
+// "Página {page} de {pages}" -> "Página " counter(page) " de " counter(pages)
+const toCssPageCounter = (label: string) =>
+  label
+    .split(/(\{page\}|\{pages\})/)
+    .filter(Boolean)
+    .map((part) =>
+      part === "{page}"
+        ? "counter(page)"
+        : part === "{pages}"
+          ? "counter(pages)"
+          : toCssString(part),
+    )
+    .join(" ");
+
+/**
+ * Renders the same report as `exportToPdf` into a standalone HTML document
+ * for the browser's print engine. Table headers repeat on every page and the
+ * footer (generated by / date / page X of Y) uses `@page` margin boxes, which
+ * browsers without margin box support simply omit.
+ */
+export const buildPrintHtml = <TRow = ExportRow>({
   title,
-  filename,
   generatedBy,
   columns,
   data,
-}: ExportPdfOptions) => {
-  const workbook = new ExcelJS.Workbook();
-  const worksheet = workbook.addWorksheet("Reporte");
+  groupBy,
+  subtitle,
+  filterSummary = [],
+  template,
+  settings,
+  pageBreakBetweenGroups = false,
+}: ExportPrintOptions<TRow>) => {
+  const { formatting } = resolveExportSettings(settings);
+  const { labels } = formatting;
+  const exportColumns = normalizeColumns(columns);
+  const showTotals = hasAggregates(exportColumns);
+  const groupKey = getGroupColumns(exportColumns, groupBy)[0]?.key;
+  const showSubtotals = showTotals && !!groupKey;
+  const { companyName, logo, logoSize, colors, font, margins, ...page } =
+    resolveReportTemplate(template);
+  const pageSize = PRINT_PAGE_SIZES.includes(page.pageSize)
+    ? page.pageSize
+    : "a4";
+  const orientation =
+    page.orientation === "landscape" ? "landscape" : "portrait";
+  const pageMargins = [margins.top, margins.right, margins.bottom, margins.left]
+    .map((margin) => `${toCssNumber(margin)}mm`)
+    .join(" ");
+  const fontFamily = `${toCssString(font.family)}, Helvetica, Arial, sans-serif`;
+
+  const toCell = (tag: "th" | "td", text: string, align = "left") =>
+    `<${tag} style="text-align: ${align}">${escapeHtml(text)}</${tag}>`;
+  const toAggregateRow = (label: string, rows: TRow[]) =>
+    buildPdfAggregateRow(label, rows, exportColumns, formatting)
+      .map((cell) => toCell("td", String(cell.content), cell.styles?.halign))
+      .join("");
+
+  const bodies = groupRows(data, exportColumns, formatting, groupKey).map(
+    (group, groupIndex) => {
+      const rows = group.rows.map(
+        (row) =>
+          `<tr>${exportColumns
+            .map((column, index) =>
+              toCell(
+                "td",
+                formatCellText(
+                  getCellValue(row, column, index),
+                  column,
+                  row,
+                  formatting,
+                ),
+                getColumnAlign(column),
+              ),
+            )
+            .join("")}</tr>`,
+      );
+      if (showSubtotals) {
+        rows.push(
+          `<tr class="subtotal">${toAggregateRow(
+            `${labels.subtotal} ${group.label}`,
+            group.rows,
+          )}</tr>`,
+        );
+      }
+      const pageBreak = pageBreakBetweenGroups && groupIndex > 0;
+      return `<tbody${pageBreak ? ' class="page-break"' : ""}>${rows.join("")}</tbody>`;
+    },
+  );
+  // A <tfoot> would repeat on every page; totals belong on the last one
+  if (showTotals) {
+    bodies.push(
+      `<tbody class="total"><tr>${toAggregateRow(labels.total, data)}</tr></tbody>`,
+    );
+  }
+
+  const footerText = [companyName, getGeneratedByText(generatedBy, formatting)]
+    .filter(Boolean)
+    .join(" | ");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page {
+    size: ${pageSize} ${orientation};
+    margin: ${pageMargins};
+    @bottom-left {
+      content: ${toCssString(footerText)};
+      font: 8pt ${fontFamily};
+      color: ${toCssColor(colors.muted)};
+    }
+    @bottom-right {
+      content: ${toCssPageCounter(labels.page)};
+      font: 8pt ${fontFamily};
+      color: ${toCssColor(colors.muted)};
+    }
+  }
+  body {
+    margin: 0;
+    font: ${toCssNumber(font.size, 10)}pt ${fontFamily};
+    color: ${toCssColor(colors.text)};
+    print-color-adjust: exact;
+    -webkit-print-color-adjust: exact;
+  }
+  header {
+    display: flex;
+    align-items: center;
+    gap: 4mm;
+    margin-bottom: 2mm;
+  }
+  header img {
+    width: ${toCssNumber(logoSize.width)}mm;
+    height: ${toCssNumber(logoSize.height)}mm;
+    object-fit: contain;
+  }
+  .company { font-size: 16pt; font-weight: bold; }
+  h1 { margin: 0; font-size: ${companyName ? "14pt; font-weight: normal" : "16pt"}; }
+  .subtitle { margin: 0 0 1mm; font-size: 11pt; }
+  .filters { margin: 0; font-size: 9pt; color: ${toCssColor(colors.muted)}; }
+  hr { margin: 2mm 0 5mm; border: 0; border-top: 0.5mm solid ${toCssColor(colors.accent)}; }
+  table { width: 100%; border-collapse: collapse; }
+  thead { display: table-header-group; }
+  th, td { padding: 1.5mm 2mm; border-bottom: 0.2mm solid #dddddd; }
+  th {
+    background: ${toCssColor(colors.accent)};
+    color: ${toCssColor(colors.accentText)};
+  }
+  tr { break-inside: avoid; }
+  tbody.page-break { break-before: page; }
+  tr.subtotal td {
+    background: ${toCssColor(colors.subtotal)};
+    font-weight: bold;
+  }
+  tbody.total td {
+    background: ${toCssColor(colors.accent)};
+    color: ${toCssColor(colors.accentText)};
+    font-weight: bold;
+  }
+</style>
+</head>
+<body>
+<header>
+  ${logo ? `<img src="${escapeHtml(toLogoSrc(logo))}" alt="">` : ""}
+  <div>
+    ${companyName ? `<div class="company">${escapeHtml(companyName)}</div>` : ""}
+    <h1>${escapeHtml(title)}</h1>
+  </div>
+</header>
+${subtitle ? `<p class="subtitle">${escapeHtml(subtitle)}</p>` : ""}
+${filterSummary.map((line) => `<p class="filters">${escapeHtml(line)}</p>`).join("\n")}
+<hr>
+<table>
+<thead><tr>${exportColumns
+    .map((column) => toCell("th", column.header, getColumnAlign(column)))
+    .join("")}</tr></thead>
+${bodies.join("\n")}
+</table>
+</body>
+</html>`;
+};
+
+// Prints through a hidden iframe so popup blockers don't get in the way.
+// Resolves once the print dialog is closed and rejects if the document fails
+// to load within `timeout` ms. The iframe is removed either way; browsers that
+// never fire `afterprint` are released after another `timeout`.
+export const printExportTable = <TRow = ExportRow>(
+  options: ExportPrintOptions<TRow>,
+  { timeout = 30_000 }: { timeout?: number } = {},
+) =>
+  new Promise<void>((resolve, reject) => {
+    const frame = document.createElement("iframe");
+    frame.style.cssText =
+      "position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;";
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let settled = false;
+    const finish = (error?: unknown) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      frame.remove();
+      if (error === undefined) resolve();
+      else reject(error instanceof Error ? error : new Error(String(error)));
+    };
+
+    timer = setTimeout(
+      () => finish(new Error("No se pudo preparar la impresión")),
+      timeout,
+    );
+    frame.onerror = () => finish(new Error("No se pudo preparar la impresión"));
+    frame.onload = () => {
+      const view = frame.contentWindow;
+      if (!view) return finish(new Error("No se pudo preparar la impresión"));
+      clearTimeout(timer);
+      try {
+        view.addEventListener("afterprint", () => finish(), { once: true });
+        view.focus();
+        view.print();
+        if (!settled) timer = setTimeout(() => finish(), timeout);
+      } catch (error) {
+        finish(error);
+      }
+    };
+
+    try {
+      frame.srcdoc = buildPrintHtml(options);
+      document.body.appendChild(frame);
+    } catch (error) {
+      finish(error);
+    }
+  });
+
+interface ExcelSheetResult {
+  name: string;
+  rowCount: number;
+  // Address and cached value of each aggregate cell in the grand total row
+  totals: Map<string, { address: string; result: number | null }>;
+}
+
+// Excel rejects sheet names longer than 31 chars, with []:*?/\ or repeated
+const toSheetName = (name: string, usedNames: Set<string>) => {
+  const base =
+    name
+      .replace(/[[\]:*?/\\]/g, " ")
+      .trim()
+      .slice(0, 31) || "Hoja";
+  let sheetName = base;
+  let suffix = 2;
+  while (usedNames.has(sheetName.toLowerCase())) {
+    const tail = ` (${suffix++})`;
+    sheetName = `${base.slice(0, 31 - tail.length)}${tail}`;
+  }
+  usedNames.add(sheetName.toLowerCase());
+  return sheetName;
+};
+
+const writeExcelTitle = (
+  worksheet: ExcelJS.Worksheet,
+  title: string,
+  generatedBy: string,
+  columnCount: number,
+  formatting: ExportFormatting,
+) => {
+  const lastColumn = Math.max(columnCount, 1);
 
   // Add Title
-  worksheet.mergeCells("A1:F1");
-  const titleCell = worksheet.getCell("A1");
+  if (lastColumn > 1) worksheet.mergeCells(1, 1, 1, lastColumn);
+  const titleCell = worksheet.getCell(1, 1);
   titleCell.value = title;
   titleCell.font = { size: 16, bold: true };
   titleCell.alignment = { horizontal: "center" };
 
   // Add Metadata
-  worksheet.mergeCells("A2:F2");
-  const metaCell = worksheet.getCell("A2");
-  const now = format(new Date(), "dd/MM/yyyy HH:mm");
-  metaCell.value = `Generado por: ${generatedBy} | Fecha: ${now}`;
+  if (lastColumn > 1) worksheet.mergeCells(2, 1, 2, lastColumn);
+  const metaCell = worksheet.getCell(2, 1);
+  metaCell.value = getGeneratedByText(generatedBy, formatting);
   metaCell.font = { size: 10, italic: true };
   metaCell.alignment = { horizontal: "center" };
 
   // Add Empty Row
   worksheet.addRow([]);
+};
 
-  // Add Headers
-  const headerRow = worksheet.addRow(columns);
+const writeExcelHeader = (
+  worksheet: ExcelJS.Worksheet,
+  headers: string[],
+  template?: ReportTemplate,
+) => {
+  const { colors } = resolveReportTemplate(template);
+  const headerRow = worksheet.addRow(headers);
   headerRow.eachCell((cell) => {
-    cell.font = { bold: true, color: { argb: "FFFFFFFF" } };
+    cell.font = { bold: true, color: { argb: toArgb(colors.accentText) } };
     cell.fill = {
       type: "pattern",
       pattern: "solid",
-      fgColor: { argb: "FF2980B9" },
+      fgColor: { argb: toArgb(colors.accent) },
     };
     cell.alignment = { horizontal: "center" };
   });
+  return headerRow;
+};
 
-  // Add Data
-  data.forEach((row) => {
-    worksheet.addRow(row);
-  });
+// Auto-fit from the header down so the merged title doesn't widen column A
+// Text Excel shows for a cell: formulas show their cached result, links their
+// text, and values are formatted like the PDF/CSV cells
+const getExcelCellText = <TRow>(
+  value: ExcelJS.CellValue,
+  column: ExportColumn<TRow> | undefined,
+  formatting: ExportFormatting,
+): string => {
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    if ("formula" in value || "sharedFormula" in value) {
+      return getExcelCellText(value.result ?? null, column, formatting);
+    }
+    return "text" in value ? String(value.text) : "";
+  }
+  if (!column)
+    return value === null || value === undefined ? "" : String(value);
+  return formatValueText(value, column, formatting);
+};
 
-  // Auto-fit columns
-  worksheet.columns.forEach((column) => {
+// `columns` describes each sheet column by position (undefined = plain text)
+const fitExcelColumns = <TRow>(
+  worksheet: ExcelJS.Worksheet,
+  fromRow: number,
+  columns: (ExportColumn<TRow> | undefined)[],
+  formatting: ExportFormatting,
+) => {
+  worksheet.columns.forEach((column, index) => {
+    const exportColumn = columns[index];
+    if (exportColumn?.width) {
+      column.width = exportColumn.width;
+      return;
+    }
     let maxLength = 0;
     column.eachCell?.({ includeEmpty: true }, (cell) => {
-      const columnLength = cell.value ? cell.value.toString().length : 10;
+      if (Number(cell.row) < fromRow) return;
+      const columnLength = getExcelCellText(
+        cell.value,
+        exportColumn,
+        formatting,
+      ).length;
       if (columnLength > maxLength) {
         maxLength = columnLength;
       }
     });
     column.width = maxLength < 10 ? 10 : maxLength + 2;
   });
+};
+
+const writeExcelSheet = <TRow>(
+  workbook: ExcelJS.Workbook,
+  sheetName: string,
+  {
+    title,
+    generatedBy,
+    columns,
+    data,
+    groupBy,
+    template,
+  }: Pick<
+    ExportPdfOptions<TRow>,
+    "title" | "generatedBy" | "columns" | "data" | "groupBy" | "template"
+  >,
+  formatting: ExportFormatting,
+): ExcelSheetResult => {
+  const { labels } = formatting;
+  const exportColumns = normalizeColumns(columns);
+  const showTotals = hasAggregates(exportColumns);
+  const { colors } = resolveReportTemplate(template);
+  const worksheet = workbook.addWorksheet(sheetName);
+  const totals: ExcelSheetResult["totals"] = new Map();
+
+  writeExcelTitle(
+    worksheet,
+    title,
+    generatedBy,
+    exportColumns.length,
+    formatting,
+  );
+
+  // Add Headers
+  const headerRow = writeExcelHeader(
+    worksheet,
+    exportColumns.map((column) => column.header),
+    template,
+  );
+
+  // Aggregates are written as formulas over the data range. When rows are
+  // grouped, SUBTOTAL is used so the grand total skips the subtotal rows.
+  const addAggregateRow = (
+    label: string,
+    rows: TRow[],
+    fromRow: number,
+    toRow: number,
+    useSubtotal: boolean,
+  ) => {
+    const aggregateRow = worksheet.addRow(
+      exportColumns.map((column, index) => {
+        if (!column.aggregate) return index === 0 ? label : null;
+        const letter = worksheet.getColumn(index + 1).letter;
+        const range = `${letter}${fromRow}:${letter}${toRow}`;
+        const { name, subtotal } = EXCEL_AGGREGATE_FUNCTIONS[column.aggregate];
+        return {
+          formula: useSubtotal
+            ? `SUBTOTAL(${subtotal},${range})`
+            : `${name}(${range})`,
+          result: computeAggregate(rows, column, index) ?? undefined,
+        };
+      }),
+    );
+    aggregateRow.font = { bold: true };
+    exportColumns.forEach((column, index) => {
+      if (!column.aggregate) return;
+      const cell = aggregateRow.getCell(index + 1);
+      const numFmt =
+        column.aggregate === "count" ? "0" : getExcelNumFmt(column, formatting);
+      if (numFmt) cell.numFmt = numFmt;
+      cell.alignment = { horizontal: getColumnAlign(column) };
+      cell.border = { top: { style: "thin" } };
+    });
+    return aggregateRow;
+  };
+
+  // Nested groups become outline levels that collapse from the row margin.
+  // Without aggregates there are no subtotal rows, so each group gets a
+  // header row with its value and row count instead.
+  const groupColumns = getGroupColumns(exportColumns, groupBy);
+  const writeRows = (rows: TRow[], depth: number) => {
+    if (depth === groupColumns.length) {
+      rows.forEach((row) => {
+        const dataRow = worksheet.addRow(
+          exportColumns.map((column, index) =>
+            toExcelValue(getCellValue(row, column, index), column, row),
+          ),
+        );
+        dataRow.outlineLevel = depth;
+        exportColumns.forEach((column, index) => {
+          const cell = dataRow.getCell(index + 1);
+          const numFmt = getExcelNumFmt(column, formatting);
+          if (numFmt) cell.numFmt = numFmt;
+          cell.alignment = { horizontal: getColumnAlign(column) };
+        });
+      });
+      return;
+    }
+
+    const groupColumn = groupColumns[depth];
+    groupRows(rows, exportColumns, formatting, groupColumn.key).forEach(
+      (group) => {
+        if (!showTotals) {
+          const groupRow = worksheet.addRow([
+            `${groupColumn.header}: ${group.label} (${group.rows.length})`,
+          ]);
+          groupRow.font = { bold: true };
+          groupRow.outlineLevel = depth;
+        }
+        const groupStart = worksheet.rowCount + 1;
+        writeRows(group.rows, depth + 1);
+
+        if (showTotals && group.rows.length) {
+          const subtotalRow = addAggregateRow(
+            `${labels.subtotal} ${group.label}`,
+            group.rows,
+            groupStart,
+            worksheet.rowCount,
+            true,
+          );
+          subtotalRow.outlineLevel = depth;
+          subtotalRow.eachCell((cell) => {
+            cell.fill = {
+              type: "pattern",
+              pattern: "solid",
+              fgColor: { argb: toArgb(colors.subtotal) },
+            };
+          });
+        }
+      },
+    );
+  };
+
+  // Add Data
+  const firstDataRow = headerRow.number + 1;
+  writeRows(data, 0);
+  const lastDataRow = worksheet.rowCount;
+
+  if (showTotals && data.length) {
+    const totalRow = addAggregateRow(
+      labels.total,
+      data,
+      firstDataRow,
+      lastDataRow,
+      groupColumns.length > 0,
+    );
+    exportColumns.forEach((column, index) => {
+      if (!column.aggregate) return;
+      totals.set(column.key, {
+        address: totalRow.getCell(index + 1).address,
+        result: computeAggregate(data, column, index),
+      });
+    });
+  }
+
+  if (groupColumns.length) {
+    worksheet.properties.outlineProperties = {
+      summaryBelow: showTotals,
+      summaryRight: false,
+    };
+  }
+
+  // Keep the header visible and filterable while scrolling
+  worksheet.views = [{ state: "frozen", ySplit: headerRow.number }];
+  if (exportColumns.length) {
+    worksheet.autoFilter = {
+      from: { row: headerRow.number, column: 1 },
+      to: {
+        row: Math.max(lastDataRow, headerRow.number),
+        column: exportColumns.length,
+      },
+    };
+  }
+
+  fitExcelColumns(worksheet, headerRow.number, exportColumns, formatting);
+
+  return { name: sheetName, rowCount: data.length, totals };
+};
+
+const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const workbookToBlob = async (
+  workbook: ExcelJS.Workbook,
+  formatting: ExportFormatting,
+) => {
+  workbook.created = formatting.now;
+  workbook.modified = formatting.now;
 
   // Write Buffer
   const buffer = await workbook.xlsx.writeBuffer();
 
-  // Create Blob and Download
-  const blob = new Blob([buffer], {
-    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  return new Blob([buffer], { type: XLSX_MIME_TYPE });
+};
+
+// Builds the single-sheet XLSX blob (also used by the worker)
+export const buildExcelBlob = async <TRow = ExportRow>(
+  options: Omit<ExportPdfOptions<TRow>, "filename">,
+  formatting = resolveExportSettings(options.settings).formatting,
+) => {
+  const workbook = new ExcelJS.Workbook();
+  writeExcelSheet(workbook, formatting.labels.sheet, options, formatting);
+  return workbookToBlob(workbook, formatting);
+};
+
+export const buildExcelFile = async <TRow = ExportRow>({
+  filename,
+  ...options
+}: ExportPdfOptions<TRow>) => {
+  const { formatting, buildFilename } = resolveExportSettings(options.settings);
+  return toExportFile(
+    await buildExcelBlob(options, formatting),
+    buildFilename(filename, "xlsx"),
+    XLSX_MIME_TYPE,
+  );
+};
+
+export const exportToExcel = async <TRow = ExportRow>(
+  options: ExportPdfOptions<TRow>,
+) => downloadExportFile(await buildExcelFile(options));
+
+export interface ExcelSheetDataset<TRow = ExportRow> {
+  name: string;
+  // Defaults to the workbook title
+  title?: string;
+  columns: (string | ExportColumn<TRow>)[];
+  data: TRow[];
+  groupBy?: string | string[];
+}
+
+interface ExportWorkbookOptions<TRow = ExportRow> {
+  title: string;
+  filename: string;
+  generatedBy: string;
+  sheets: ExcelSheetDataset<TRow>[];
+  // Prepend a sheet with the row count and grand totals of every dataset
+  summary?: boolean | { name?: string };
+  template?: ReportTemplate;
+  settings?: ExportSettings;
+}
+
+export const buildWorkbookFile = async <TRow = ExportRow>({
+  title,
+  filename,
+  generatedBy,
+  sheets,
+  summary = false,
+  template,
+  settings,
+}: ExportWorkbookOptions<TRow>) => {
+  const { formatting, buildFilename } = resolveExportSettings(settings);
+  const { labels } = formatting;
+  const { colors } = resolveReportTemplate(template);
+  const workbook = new ExcelJS.Workbook();
+  const usedNames = new Set<string>();
+  const summaryName = summary
+    ? toSheetName(
+        (typeof summary === "object" && summary.name) || labels.summarySheet,
+        usedNames,
+      )
+    : null;
+  const summarySheet = summaryName ? workbook.addWorksheet(summaryName) : null;
+
+  const results = sheets.map((sheet) =>
+    writeExcelSheet(
+      workbook,
+      toSheetName(sheet.name, usedNames),
+      {
+        title: sheet.title ?? title,
+        generatedBy,
+        columns: sheet.columns,
+        data: sheet.data,
+        groupBy: sheet.groupBy,
+        template,
+      },
+      formatting,
+    ),
+  );
+
+  if (summarySheet) {
+    // One column per aggregated key across all datasets, in first-seen order
+    const aggregateColumns = new Map<string, ExportColumn<TRow>>();
+    sheets.forEach((sheet) =>
+      normalizeColumns(sheet.columns).forEach((column) => {
+        if (column.aggregate && !aggregateColumns.has(column.key)) {
+          aggregateColumns.set(column.key, column);
+        }
+      }),
+    );
+    const summaryColumns = Array.from(aggregateColumns.values());
+
+    writeExcelTitle(
+      summarySheet,
+      title,
+      generatedBy,
+      summaryColumns.length + 2,
+      formatting,
+    );
+    const headerRow = writeExcelHeader(
+      summarySheet,
+      [
+        labels.summarySheetColumn,
+        labels.summaryRowsColumn,
+        ...summaryColumns.map((column) => column.header),
+      ],
+      template,
+    );
+
+    results.forEach((result) => {
+      const quotedName = `'${result.name.replace(/'/g, "''")}'`;
+      const row = summarySheet.addRow([
+        {
+          text: result.name,
+          hyperlink: `#${quotedName}!A1`,
+        },
+        result.rowCount,
+        ...summaryColumns.map((column) => {
+          const total = result.totals.get(column.key);
+          return total
+            ? {
+                formula: `${quotedName}!${total.address}`,
+                result: total.result ?? undefined,
+              }
+            : null;
+        }),
+      ]);
+      row.getCell(1).font = {
+        color: { argb: toArgb(colors.accent) },
+        underline: true,
+      };
+      summaryColumns.forEach((column, index) => {
+        const cell = row.getCell(index + 3);
+        const numFmt =
+          column.aggregate === "count"
+            ? "0"
+            : getExcelNumFmt(column, formatting);
+        if (numFmt) cell.numFmt = numFmt;
+        cell.alignment = { horizontal: getColumnAlign(column) };
+      });
+    });
+
+    // Only additive aggregates can be totalled across sheets
+    if (results.length) {
+      const firstRow = headerRow.number + 1;
+      const lastRow = summarySheet.rowCount;
+      const sumRange = (column: number) => {
+        const letter = summarySheet.getColumn(column).letter;
+        return `SUM(${letter}${firstRow}:${letter}${lastRow})`;
+      };
+      const totalRow = summarySheet.addRow([
+        labels.total,
+        {
+          formula: sumRange(2),
+          result: results.reduce((total, result) => total + result.rowCount, 0),
+        },
+        ...summaryColumns.map((column, index) =>
+          column.aggregate === "sum" || column.aggregate === "count"
+            ? {
+                formula: sumRange(index + 3),
+                result: results.reduce(
+                  (total, result) =>
+                    total + (result.totals.get(column.key)?.result ?? 0),
+                  0,
+                ),
+              }
+            : null,
+        ),
+      ]);
+      totalRow.font = { bold: true };
+      summaryColumns.forEach((column, index) => {
+        const cell = totalRow.getCell(index + 3);
+        const numFmt =
+          column.aggregate === "count"
+            ? "0"
+            : getExcelNumFmt(column, formatting);
+        if (numFmt) cell.numFmt = numFmt;
+        cell.alignment = { horizontal: getColumnAlign(column) };
+        cell.border = { top: { style: "thin" } };
+      });
+    }
+
+    summarySheet.views = [{ state: "frozen", ySplit: headerRow.number }];
+    fitExcelColumns(
+      summarySheet,
+      headerRow.number,
+      [
+        undefined,
+        { key: "rows", header: "", type: "number", decimals: 0 },
+        ...summaryColumns.map((column) =>
+          column.aggregate === "count"
+            ? { ...column, type: "number" as const, decimals: 0 }
+            : column,
+        ),
+      ],
+      formatting,
+    );
+  }
+
+  return toExportFile(
+    await workbookToBlob(workbook, formatting),
+    buildFilename(filename, "xlsx"),
+    XLSX_MIME_TYPE,
+  );
+};
+
+export const exportWorkbookToExcel = async <TRow = ExportRow>(
+  options: ExportWorkbookOptions<TRow>,
+) => downloadExportFile(await buildWorkbookFile(options));
+
+interface ExportDelimitedOptions<
+  TRow = ExportRow,
+> extends ExportPdfOptions<TRow> {
+  // Prepend a UTF-8 BOM so Excel detects the encoding (accents, ñ) on open
+  bom?: boolean;
+}
+
+type DelimitedFormat = "csv" | "tsv";
+
+const DELIMITED_FORMATS: Record<
+  DelimitedFormat,
+  { delimiter: string; mimeType: string }
+> = {
+  csv: { delimiter: ",", mimeType: "text/csv" },
+  tsv: { delimiter: "\t", mimeType: "text/tab-separated-values" },
+};
+
+const UTF8_BOM = "\uFEFF";
+
+// RFC 4180: fields containing the delimiter, quotes or line breaks are wrapped
+// in double quotes, and embedded quotes are escaped by doubling them.
+const escapeDelimitedField = (value: string, delimiter: string) => {
+  if (
+    value.includes(delimiter) ||
+    value.includes('"') ||
+    value.includes("\n") ||
+    value.includes("\r")
+  ) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+const toDelimitedText = <TRow>(
+  columns: ExportColumn<TRow>[],
+  data: TRow[],
+  delimiter: string,
+  formatting: ExportFormatting,
+) =>
+  [
+    columns.map((column) => column.header),
+    ...data.map((row) =>
+      columns.map((column, index) =>
+        formatCellText(
+          getCellValue(row, column, index),
+          column,
+          row,
+          formatting,
+        ),
+      ),
+    ),
+  ]
+    .map((row) =>
+      row
+        .map((value) => escapeDelimitedField(value ?? "", delimiter))
+        .join(delimiter),
+    )
+    .join("\r\n");
+
+// Builds the CSV/TSV blob (also used by the worker)
+export const buildDelimitedBlob = <TRow = ExportRow>(
+  {
+    columns,
+    data,
+    bom = false,
+    settings,
+  }: Pick<
+    ExportDelimitedOptions<TRow>,
+    "columns" | "data" | "bom" | "settings"
+  >,
+  fileFormat: DelimitedFormat,
+  formatting = resolveExportSettings(settings).formatting,
+) => {
+  const { delimiter, mimeType } = DELIMITED_FORMATS[fileFormat];
+  const content = toDelimitedText(
+    normalizeColumns(columns),
+    data,
+    delimiter,
+    formatting,
+  );
+  return new Blob([bom ? UTF8_BOM + content : content], {
+    type: `${mimeType};charset=utf-8`,
   });
+};
+
+const buildDelimitedFile = <TRow>(
+  { filename, ...options }: ExportDelimitedOptions<TRow>,
+  fileFormat: DelimitedFormat,
+) => {
+  const { formatting, buildFilename } = resolveExportSettings(options.settings);
+  return toExportFile(
+    buildDelimitedBlob(options, fileFormat, formatting),
+    buildFilename(filename, fileFormat),
+    DELIMITED_FORMATS[fileFormat].mimeType,
+  );
+};
+
+export const buildCsvFile = <TRow = ExportRow>(
+  options: ExportDelimitedOptions<TRow>,
+) => buildDelimitedFile(options, "csv");
+
+export const buildTsvFile = <TRow = ExportRow>(
+  options: ExportDelimitedOptions<TRow>,
+) => buildDelimitedFile(options, "tsv");
+
+export const exportToCsv = <TRow = ExportRow>(
+  options: ExportDelimitedOptions<TRow>,
+) => downloadExportFile(buildCsvFile(options));
+
+export const exportToTsv = <TRow = ExportRow>(
+  options: ExportDelimitedOptions<TRow>,
+) => downloadExportFile(buildTsvFile(options));
+
+export type StreamExportFormat = "excel" | DelimitedFormat;
+
+export interface ExportProgress {
+  processed: number;
+  total?: number;
+  // "rows" while chunks are read, "writing" while the worker builds the file
+  stage: "rows" | "writing";
+}
+
+interface StreamExportOptions<TRow = ExportRow> extends Omit<
+  ExportDelimitedOptions<TRow>,
+  "data"
+> {
+  format: StreamExportFormat;
+  // Row chunks, e.g. `fetchPages(...)` or `rowsInChunks(rows)`
+  rows: AsyncIterable<TRow[]>;
+  total?: number;
+  onProgress?: (progress: ExportProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Messages exchanged with export.worker.ts. Rows are resolved to plain cell
+// values on the main thread because accessors and formatters can't be cloned.
+export type ExportWorkerRequest =
+  | {
+      type: "start";
+      format: StreamExportFormat;
+      title: string;
+      generatedBy: string;
+      columns: ExportColumn<ExportCellValue[]>[];
+      groupBy?: string[];
+      bom?: boolean;
+      template?: ReportTemplate;
+      formatting: ExportFormatting;
+    }
+  | { type: "rows"; rows: ExportCellValue[][] }
+  | { type: "finish" };
+
+export type ExportWorkerResponse =
+  { type: "done"; blob: Blob } | { type: "error"; message: string };
+
+const STREAM_FILE_TYPES: Record<
+  StreamExportFormat,
+  { extension: string; mimeType: string }
+> = {
+  excel: { extension: "xlsx", mimeType: XLSX_MIME_TYPE },
+  csv: { extension: "csv", mimeType: DELIMITED_FORMATS.csv.mimeType },
+  tsv: { extension: "tsv", mimeType: DELIMITED_FORMATS.tsv.mimeType },
+};
+
+const toWorkerColumns = <TRow>(
+  columns: ExportColumn<TRow>[],
+  fileFormat: StreamExportFormat,
+): ExportColumn<ExportCellValue[]>[] =>
+  columns.map((column, index) =>
+    fileFormat === "excel"
+      ? {
+          key: String(index),
+          header: column.header,
+          type: column.type,
+          width: column.width,
+          align: column.align,
+          decimals: column.decimals,
+          numFmt: column.numFmt,
+          aggregate: column.aggregate,
+        }
+      : // Delimited rows arrive already formatted as text
+        { key: String(index), header: column.header, type: "text" },
+  );
+
+const toWorkerRow = <TRow>(
+  row: TRow,
+  columns: ExportColumn<TRow>[],
+  fileFormat: StreamExportFormat,
+  formatting: ExportFormatting,
+): ExportCellValue[] =>
+  columns.map((column, index) => {
+    const value = getCellValue(row, column, index);
+    return fileFormat === "excel"
+      ? toExcelValue(value, column, row)
+      : formatCellText(value, column, row, formatting);
+  });
+
+/**
+ * Builds the file in a Web Worker so large exports don't freeze the tab.
+ * Rows are pulled chunk by chunk from `rows`; aborting `signal` stops reading
+ * and terminates the worker, rejecting with the abort reason.
+ */
+export const buildFileInWorker = async <TRow = ExportRow>({
+  format: fileFormat,
+  rows,
+  total,
+  onProgress,
+  signal,
+  filename,
+  columns,
+  groupBy,
+  settings,
+  ...options
+}: StreamExportOptions<TRow>) => {
+  signal?.throwIfAborted();
+  const { formatting, buildFilename } = resolveExportSettings(settings);
+  const exportColumns = normalizeColumns(columns);
+  // Worker columns are keyed by position
+  const groupKeys = getGroupColumns(exportColumns, groupBy).map((column) =>
+    String(exportColumns.indexOf(column)),
+  );
+
+  const worker = new Worker(new URL("./export.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  // Set once the worker fails or the signal aborts, so no more rows are sent
+  let failure: { error: unknown } | undefined;
+  let onAbort = () => {};
+  const result = new Promise<Blob>((resolve, reject) => {
+    const fail = (error: unknown) => {
+      failure ??= { error };
+      reject(error);
+    };
+    worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+      if (event.data.type === "done") resolve(event.data.blob);
+      else fail(new Error(event.data.message));
+    };
+    worker.onerror = (event) => fail(new Error(event.message));
+    onAbort = () => fail(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+  // Failures surface when `result` is awaited below
+  result.catch(() => undefined);
+  const throwIfFailed = () => {
+    if (failure) throw failure.error;
+  };
+
+  try {
+    const start: ExportWorkerRequest = {
+      type: "start",
+      format: fileFormat,
+      columns: toWorkerColumns(exportColumns, fileFormat),
+      groupBy: groupKeys,
+      ...options,
+      // date-fns locales hold functions and can't be cloned into the worker;
+      // dates are already resolved by the time rows reach it
+      formatting: { ...formatting, locale: undefined },
+    };
+    worker.postMessage(start);
+
+    let processed = 0;
+    onProgress?.({ processed, total, stage: "rows" });
+    for await (const chunk of rows) {
+      throwIfFailed();
+      const message: ExportWorkerRequest = {
+        type: "rows",
+        rows: chunk.map((row) =>
+          toWorkerRow(row, exportColumns, fileFormat, formatting),
+        ),
+      };
+      worker.postMessage(message);
+      processed += chunk.length;
+      onProgress?.({ processed, total, stage: "rows" });
+    }
+
+    throwIfFailed();
+    onProgress?.({ processed, total, stage: "writing" });
+    worker.postMessage({ type: "finish" } satisfies ExportWorkerRequest);
+
+    const { extension, mimeType } = STREAM_FILE_TYPES[fileFormat];
+    return toExportFile(
+      await result,
+      buildFilename(filename, extension),
+      mimeType,
+    );
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    worker.terminate();
+  }
+};
+
+export const exportRowsInWorker = async <TRow = ExportRow>(
+  options: StreamExportOptions<TRow>,
+) => downloadExportFile(await buildFileInWorker(options));
+
+// Splits an in-memory array into chunks, yielding to the event loop between
+// them so progress updates can paint.
+export async function* rowsInChunks<TRow>(rows: TRow[], chunkSize = 1000) {
+  for (let start = 0; start < rows.length; start += chunkSize) {
+    yield rows.slice(start, start + chunkSize);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
+
+// Reads 1-based pages until one comes back empty (or shorter than pageSize)
+export async function* fetchPages<TRow>(
+  fetchPage: (page: number, signal?: AbortSignal) => Promise<TRow[]>,
+  { pageSize, signal }: { pageSize?: number; signal?: AbortSignal } = {},
+) {
+  for (let page = 1; ; page++) {
+    const rows = await fetchPage(page, signal);
+    if (rows.length) yield rows;
+    if (!rows.length || (pageSize && rows.length < pageSize)) return;
+  }
+}
+
+// A generated report, ready to download, preview, share or upload
+export interface ExportFile {
+  blob: Blob;
+  filename: string;
+  mimeType: string;
+}
+
+const toExportFile = (
+  blob: Blob,
+  filename: string,
+  mimeType: string,
+): ExportFile => ({ blob, filename, mimeType });
+
+export const downloadExportFile = ({ blob, filename }: ExportFile) =>
+  downloadBlob(blob, filename);
+
+// Opens the file in a new tab (browsers render PDFs inline). Returns null when
+// a popup blocker prevented it, so callers can fall back to downloading.
+export const previewExportFile = ({ blob }: ExportFile) => {
+  const url = URL.createObjectURL(blob);
+  const preview = window.open(url, "_blank");
+  // Give the new tab time to load the file before releasing it
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  return preview;
+};
+
+// Shares the file through the Web Share API (mobile and most desktop browsers).
+// Resolves false when file sharing isn't supported or the user dismissed it.
+export const shareExportFile = async (
+  { blob, filename, mimeType }: ExportFile,
+  { title, text }: { title?: string; text?: string } = {},
+) => {
+  const file = new File([blob], filename, { type: mimeType });
+  if (!navigator.canShare?.({ files: [file] })) return false;
+
+  try {
+    await navigator.share({ files: [file], title, text });
+    return true;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return false;
+    }
+    throw error;
+  }
+};
+
+function downloadBlob(blob: Blob, filename: string) {
   const link = document.createElement("a");
   link.href = URL.createObjectURL(blob);
-  link.download = `${filename}_${format(new Date(), "yyyyMMdd_HHmm")}.xlsx`;
+  link.download = filename;
   link.click();
   URL.revokeObjectURL(link.href);
-};
+}
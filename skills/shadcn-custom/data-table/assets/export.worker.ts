@@ -0,0 +1,49 @@
+/// <reference lib="webworker" />
+import {
+  buildDelimitedBlob,
+  buildExcelBlob,
+  type ExportCellValue,
+  type ExportWorkerRequest,
+  type ExportWorkerResponse,
+} from "./export.utils";
+
+let job: Extract<ExportWorkerRequest, { type: "start" }> | null = null;
+let rows: ExportCellValue[][] = [];
+
+const reply = (message: ExportWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ExportWorkerRequest>) => {
+  const message = event.data;
+
+  try {
+    switch (message.type) {
+      case "start":
+        job = message;
+        rows = [];
+        break;
+      case "rows":
+        for (const row of message.rows) rows.push(row);
+        break;
+      case "finish": {
+        if (!job) throw new Error("Exportación no iniciada");
+        const { format, bom, formatting, ...options } = job;
+        const blob =
+          format === "excel"
+            ? await buildExcelBlob({ ...options, data: rows }, formatting)
+            : buildDelimitedBlob(
+                { ...options, bom, data: rows },
+                format,
+                formatting,
+              );
+        rows = [];
+        reply({ type: "done", blob });
+        break;
+      }
+    }
+  } catch (error) {
+    reply({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
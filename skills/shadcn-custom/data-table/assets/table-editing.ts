@@ -0,0 +1,140 @@
+import type { Row, RowData, Table } from "@tanstack/react-table";
+import type { ZodType } from "zod";
+
+import type { FilterOption } from "@/lib/table-filters";
+
+declare module "@tanstack/react-table" {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface ColumnMeta<TData extends RowData, TValue> {
+    // Makes the column's cells editable inline
+    edit?: CellEditOptions<TData>;
+  }
+
+  interface TableMeta<TData extends RowData> {
+    editing?: TableEditing<TData>;
+  }
+}
+
+export type CellEditorType = "text" | "number" | "select" | "date" | "boolean";
+
+export interface CellEditOptions<TData> {
+  // text -> Input, number -> numeric Input, select -> Combobox,
+  // date -> SmartDatePicker, boolean -> Switch
+  type: CellEditorType;
+  // Validates the new value; the first issue is shown under the cell
+  schema?: ZodType;
+  // Select values; defaults to `meta.options`
+  options?: FilterOption[];
+  placeholder?: string;
+  // Rows whose cell stays read-only
+  disabled?: (row: TData) => boolean;
+  // Returns a copy of the row with the new value. Defaults to setting
+  // `row[columnId]`, which fits `accessorKey` columns.
+  setValue?: (row: TData, value: unknown) => TData;
+}
+
+// Edited values per row id, with the row they were made on
+export type CellDrafts<TData> = Record<
+  string,
+  { original: TData; values: Record<string, unknown> }
+>;
+
+export interface RowChange<TData> {
+  rowId: string;
+  original: TData;
+  // `original` with the new values applied
+  row: TData;
+  // New values by column id
+  values: Record<string, unknown>;
+}
+
+// What editable cells read from `table.options.meta.editing`
+export interface TableEditing<TData> {
+  drafts: CellDrafts<TData>;
+  isSaving: boolean;
+  setCellValue: (
+    row: Row<TData>,
+    columnId: string,
+    value: unknown,
+    savedValue: unknown,
+  ) => void;
+}
+
+const isSameValue = (a: unknown, b: unknown) => {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  // Cleared inputs give "" or null for a value that was never set
+  const isEmpty = (value: unknown) =>
+    value === undefined || value === null || value === "";
+  return Object.is(a, b) || (isEmpty(a) && isEmpty(b));
+};
+
+// Returns the error message for the value, if any
+export const validateCellValue = <TData>(
+  edit: CellEditOptions<TData>,
+  value: unknown,
+) => {
+  const result = edit.schema?.safeParse(value);
+  if (!result || result.success) return undefined;
+  return result.error.issues[0]?.message ?? "Valor inválido";
+};
+
+/**
+ * Stores the value as a draft, or drops it when it matches the saved value
+ * again, so only real changes count as dirty.
+ */
+export const setDraftValue = <TData>(
+  drafts: CellDrafts<TData>,
+  row: Row<TData>,
+  columnId: string,
+  value: unknown,
+  savedValue: unknown,
+): CellDrafts<TData> => {
+  const { [row.id]: entry, ...rest } = drafts;
+  const values = { ...entry?.values };
+  if (isSameValue(value, savedValue)) delete values[columnId];
+  else values[columnId] = value;
+  if (!Object.keys(values).length) return rest;
+  return {
+    ...rest,
+    [row.id]: { original: entry?.original ?? row.original, values },
+  };
+};
+
+export const countDraftCells = <TData>(drafts: CellDrafts<TData>) =>
+  Object.values(drafts).reduce(
+    (count, { values }) => count + Object.keys(values).length,
+    0,
+  );
+
+export const countDraftErrors = <TData>(
+  table: Table<TData>,
+  drafts: CellDrafts<TData>,
+) =>
+  Object.values(drafts).reduce(
+    (count, { values }) =>
+      count +
+      Object.entries(values).filter(([columnId, value]) => {
+        const edit = table.getColumn(columnId)?.columnDef.meta?.edit;
+        return !!edit && !!validateCellValue(edit, value);
+      }).length,
+    0,
+  );
+
+// Drafts as the changes `onRowsCommit` receives
+export const getRowChanges = <TData>(
+  table: Table<TData>,
+  drafts: CellDrafts<TData>,
+): RowChange<TData>[] =>
+  Object.entries(drafts).map(([rowId, { original, values }]) => ({
+    rowId,
+    original,
+    values,
+    row: Object.entries(values).reduce((row, [columnId, value]) => {
+      const edit = table.getColumn(columnId)?.columnDef.meta?.edit;
+      return edit?.setValue
+        ? edit.setValue(row, value)
+        : ({ ...row, [columnId]: value } as TData);
+    }, original),
+  }));
@@ -0,0 +1,111 @@
+import type { Column, RowData, Table } from "@tanstack/react-table";
+
+import type { ExportCellValue, ExportColumn } from "@/lib/export.utils";
+
+declare module "@tanstack/react-table" {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface ColumnMeta<TData extends RowData, TValue> {
+    label?: string;
+    // Header written to exports. Defaults to a string `header`, then `label`.
+    exportHeader?: string;
+    // Value written to exports; should match what `cell` renders on screen
+    exportValue?: (row: TData) => ExportCellValue;
+    // Typed export settings such as type, aggregate, width or formatter
+    export?: Omit<ExportColumn<TData>, "key" | "header" | "accessor">;
+    // Set to false to leave the column out of exports (e.g. row actions)
+    exportable?: boolean;
+  }
+}
+
+// Name shown for the column in menus, chips and the query builder
+export const getColumnLabel = <TData>(column: Column<TData, unknown>) => {
+  const { header, meta } = column.columnDef;
+  if (meta?.label) return meta.label;
+  return typeof header === "string" ? header : column.id;
+};
+
+const getExportHeader = <TData>(column: Column<TData, unknown>) => {
+  const { header, meta } = column.columnDef;
+  if (meta?.exportHeader) return meta.exportHeader;
+  if (typeof header === "string") return header;
+  return meta?.label ?? column.id;
+};
+
+// Keeps exportable primitives and flattens the rest so objects never come
+// out as "[object Object]".
+const toExportValue = (value: unknown): ExportCellValue => {
+  if (value === null || value === undefined) return "";
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    value instanceof Date
+  ) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => String(toExportValue(item))).join(", ");
+  }
+  if (typeof value === "object") {
+    const { label, name } = value as { label?: unknown; name?: unknown };
+    if (typeof label === "string") return label;
+    if (typeof name === "string") return name;
+    return "";
+  }
+  return String(value);
+};
+
+/**
+ * Export columns for a TanStack table: visible leaf columns in display order
+ * (column order and pinning applied). Columns without an accessor or
+ * `meta.exportValue`, or with `meta.exportable: false`, are skipped.
+ */
+export const getTableExportColumns = <TData>(
+  table: Table<TData>,
+): ExportColumn<TData>[] =>
+  [
+    ...table.getLeftVisibleLeafColumns(),
+    ...table.getCenterVisibleLeafColumns(),
+    ...table.getRightVisibleLeafColumns(),
+  ]
+    .filter((column) => {
+      const meta = column.columnDef.meta;
+      if (meta?.exportable === false) return false;
+      return !!meta?.exportValue || !!column.accessorFn;
+    })
+    .map((column) => {
+      const meta = column.columnDef.meta;
+      return {
+        ...meta?.export,
+        key: column.id,
+        header: getExportHeader(column),
+        // The row index argument has no meaning outside the row model, and
+        // rows fetched for "export all" never went through it.
+        accessor: (row: TData) =>
+          meta?.exportValue
+            ? meta.exportValue(row)
+            : toExportValue(column.accessorFn?.(row, 0)),
+      };
+    });
+
+// Original rows for the current page, every filtered/sorted row or the
+// selected ones. Group rows stand for their leaf rows, collapsed or not.
+export const getTableExportRows = <TData>(
+  table: Table<TData>,
+  scope: "page" | "all" | "selected" = "page",
+) => {
+  const { rows } =
+    scope === "page"
+      ? table.getRowModel()
+      : scope === "selected"
+        ? table.getSelectedRowModel()
+        : table.getPrePaginationRowModel();
+  // Expanded groups list their leaves again after the group row
+  const leafRows = new Map<string, TData>();
+  rows.forEach((row) =>
+    (row.getIsGrouped() ? row.getLeafRows() : [row]).forEach((leaf) => {
+      if (!leaf.getIsGrouped()) leafRows.set(leaf.id, leaf.original);
+    }),
+  );
+  return [...leafRows.values()];
+};
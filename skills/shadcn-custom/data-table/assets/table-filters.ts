@@ -0,0 +1,227 @@
+import type {
+  ColumnDef,
+  ColumnFiltersState,
+  FilterFn,
+} from "@tanstack/react-table";
+import { format, isValid, parseISO } from "date-fns";
+
+export interface FilterOption {
+  value: string;
+  label: string;
+}
+
+interface BaseFilterField<TType extends string> {
+  // Column id the filter applies to
+  id: string;
+  label: string;
+  type: TType;
+  placeholder?: string;
+}
+
+export type FilterField =
+  | BaseFilterField<"text">
+  | (BaseFilterField<"select"> & { options: FilterOption[] })
+  | (BaseFilterField<"multiSelect"> & { options: FilterOption[] })
+  | BaseFilterField<"dateRange">
+  | (BaseFilterField<"numberRange"> & {
+      min?: number;
+      max?: number;
+      step?: number;
+    })
+  | (BaseFilterField<"boolean"> & { trueLabel?: string; falseLabel?: string });
+
+export type FilterFieldType = FilterField["type"];
+
+// "yyyy-MM-dd" strings so the value survives JSON (URL, saved views)
+export interface DateRangeFilterValue {
+  from?: string;
+  to?: string;
+}
+
+export interface NumberRangeFilterValue {
+  min?: number;
+  max?: number;
+}
+
+interface FilterValueByType {
+  text: string;
+  select: string;
+  multiSelect: string[];
+  dateRange: DateRangeFilterValue;
+  numberRange: NumberRangeFilterValue;
+  boolean: boolean;
+}
+
+export type FilterValue = FilterValueByType[FilterFieldType];
+
+// { status?: string; total?: NumberRangeFilterValue; ... } keyed by field id
+export type FilterValues<TFields extends readonly FilterField[]> = {
+  [
+    TField in TFields[number] as TField["id"]
+  ]?: FilterValueByType[TField["type"]];
+};
+
+/**
+ * Declares a filter schema keeping the literal ids and types, so
+ * `FilterValues<typeof filters>` is fully typed.
+ */
+export const defineFilters = <const TFields extends readonly FilterField[]>(
+  fields: TFields,
+) => fields;
+
+// Empty strings, lists and ranges don't filter anything
+export const isFilterValueActive = (value: unknown): boolean => {
+  if (value === undefined || value === null || value === "") return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "object") {
+    return Object.values(value).some(
+      (item) => item !== undefined && item !== null && item !== "",
+    );
+  }
+  return true;
+};
+
+// Reads the schema's values out of the table's column filters
+export const getFilterValues = <TFields extends readonly FilterField[]>(
+  fields: TFields,
+  columnFilters: ColumnFiltersState,
+) =>
+  Object.fromEntries(
+    columnFilters
+      .filter(
+        ({ id, value }) =>
+          fields.some((field) => field.id === id) && isFilterValueActive(value),
+      )
+      .map(({ id, value }) => [id, value]),
+  ) as FilterValues<TFields>;
+
+// Replaces the schema's column filters, keeping any other column filter
+export const setFilterValues = <TFields extends readonly FilterField[]>(
+  fields: TFields,
+  columnFilters: ColumnFiltersState,
+  values: FilterValues<TFields>,
+): ColumnFiltersState => {
+  const entries: [string, unknown][] = Object.entries(values);
+  return [
+    ...columnFilters.filter(
+      ({ id }) => !fields.some((field) => field.id === id),
+    ),
+    ...entries
+      .filter(([, value]) => isFilterValueActive(value))
+      .map(([id, value]) => ({ id, value })),
+  ];
+};
+
+export const countActiveFilters = <TFields extends readonly FilterField[]>(
+  fields: TFields,
+  values: FilterValues<TFields>,
+) =>
+  fields.filter((field) =>
+    isFilterValueActive((values as Record<string, unknown>)[field.id]),
+  ).length;
+
+const formatDay = (value: string) => {
+  const date = parseISO(value);
+  return isValid(date) ? format(date, "dd/MM/yyyy") : value;
+};
+
+const getOptionLabel = (options: FilterOption[], value: string) =>
+  options.find((option) => option.value === value)?.label ?? value;
+
+// Chip text for an active filter, e.g. "Estado: Activo, Pendiente"
+export const formatFilterValue = (field: FilterField, value: unknown) => {
+  switch (field.type) {
+    case "text":
+      return `"${value}"`;
+    case "select":
+      return getOptionLabel(field.options, String(value));
+    case "multiSelect":
+      return (value as string[])
+        .map((item) => getOptionLabel(field.options, item))
+        .join(", ");
+    case "dateRange": {
+      const { from, to } = value as DateRangeFilterValue;
+      if (from && to) return `${formatDay(from)} - ${formatDay(to)}`;
+      return from ? `Desde ${formatDay(from)}` : `Hasta ${formatDay(to!)}`;
+    }
+    case "numberRange": {
+      const { min, max } = value as NumberRangeFilterValue;
+      if (min !== undefined && max !== undefined) return `${min} - ${max}`;
+      return min !== undefined ? `≥ ${min}` : `≤ ${max}`;
+    }
+    case "boolean":
+      return value ? (field.trueLabel ?? "Sí") : (field.falseLabel ?? "No");
+  }
+};
+
+// Cell dates may come as Date, ISO string or timestamp
+export const toDayString = (value: unknown) => {
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === "string"
+        ? parseISO(value)
+        : typeof value === "number"
+          ? new Date(value)
+          : null;
+  return date && isValid(date) ? format(date, "yyyy-MM-dd") : null;
+};
+
+// Client-side predicate matching each filter type
+export const getFilterFn = <TData>(field: FilterField): FilterFn<TData> => {
+  switch (field.type) {
+    case "text":
+      return (row, columnId, value: string) =>
+        String(row.getValue(columnId) ?? "")
+          .toLowerCase()
+          .includes(value.toLowerCase());
+    case "select":
+      return (row, columnId, value: string) =>
+        String(row.getValue(columnId) ?? "") === value;
+    case "multiSelect":
+      return (row, columnId, value: string[]) =>
+        value.includes(String(row.getValue(columnId) ?? ""));
+    case "dateRange":
+      return (row, columnId, { from, to }: DateRangeFilterValue) => {
+        // "yyyy-MM-dd" strings compare chronologically
+        const day = toDayString(row.getValue(columnId));
+        return !!day && (!from || day >= from) && (!to || day <= to);
+      };
+    case "numberRange":
+      return (row, columnId, { min, max }: NumberRangeFilterValue) => {
+        const value = row.getValue(columnId);
+        // Number(null) and Number("") are 0; blank cells never match a range
+        if (value == null || (typeof value === "string" && !value.trim())) {
+          return false;
+        }
+        const number = Number(value);
+        return (
+          !Number.isNaN(number) &&
+          (min === undefined || number >= min) &&
+          (max === undefined || number <= max)
+        );
+      };
+    case "boolean":
+      return (row, columnId, value: boolean) =>
+        Boolean(row.getValue(columnId)) === value;
+  }
+};
+
+const getColumnId = <TData>(column: ColumnDef<TData>) =>
+  column.id ??
+  ("accessorKey" in column ? String(column.accessorKey) : undefined);
+
+// Gives each filtered column the matching `filterFn` unless it declares one
+export const withFilterFns = <TData>(
+  columns: ColumnDef<TData>[],
+  fields: readonly FilterField[],
+): ColumnDef<TData>[] =>
+  columns.map((column) => {
+    if ("columns" in column && column.columns) {
+      return { ...column, columns: withFilterFns(column.columns, fields) };
+    }
+    const field = fields.find((item) => item.id === getColumnId(column));
+    return field && !column.filterFn
+      ? { ...column, filterFn: getFilterFn<TData>(field) }
+      : column;
+  });
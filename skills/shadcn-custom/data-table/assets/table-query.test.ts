@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  evaluateQuery,
+  isConditionComplete,
+  toQueryAst,
+  type QueryCombinator,
+  type QueryCondition,
+  type QueryField,
+  type QueryGroup,
+  type QueryOperator,
+  type QueryRule,
+  type QueryValue,
+} from "./table-query";
+
+interface Invoice {
+  customer: string | null;
+  amount: number | string | null;
+  dueDate: string | Date | null;
+  status: string;
+  paid: boolean;
+}
+
+const fields: QueryField[] = [
+  { id: "customer", label: "Cliente", type: "text" },
+  { id: "amount", label: "Importe", type: "number" },
+  { id: "dueDate", label: "Vencimiento", type: "date" },
+  { id: "status", label: "Estado", type: "select" },
+  { id: "paid", label: "Pagada", type: "boolean" },
+];
+
+const invoice: Invoice = {
+  customer: "José Pérez",
+  amount: 1500,
+  dueDate: "2024-03-10",
+  status: "pendiente",
+  paid: false,
+};
+
+// Ids only matter to the builder UI, so fixed ones keep the fixtures short
+const condition = (
+  field: string,
+  operator: QueryOperator,
+  value?: QueryValue,
+): QueryCondition => ({ type: "condition", id: field, field, operator, value });
+
+const group = (
+  combinator: QueryCombinator,
+  rules: QueryRule[],
+): QueryGroup => ({
+  type: "group",
+  id: combinator,
+  combinator,
+  rules,
+});
+
+const matches = (query: QueryGroup, record: Invoice = invoice) =>
+  evaluateQuery(query, (field) => record[field as keyof Invoice], fields);
+
+describe("evaluateQuery", () => {
+  it("combines nested AND and OR groups", () => {
+    const query = group("and", [
+      condition("amount", "gt", 1000),
+      group("or", [
+        condition("status", "eq", "pagada"),
+        condition("customer", "startsWith", "josé"),
+      ]),
+    ]);
+
+    expect(matches(query)).toBe(true);
+    expect(matches(query, { ...invoice, customer: "Ana" })).toBe(false);
+    expect(matches(query, { ...invoice, amount: 900 })).toBe(false);
+    expect(
+      matches(group("or", [condition("amount", "lt", 10), query]), {
+        ...invoice,
+        amount: 5,
+      }),
+    ).toBe(true);
+  });
+
+  it("ignores incomplete conditions, unknown fields and empty groups", () => {
+    expect(matches(group("and", []))).toBe(true);
+    expect(
+      matches(
+        group("and", [
+          condition("amount", "gt"),
+          condition("missing", "eq", "x"),
+          group("or", []),
+          condition("paid", "isFalse"),
+        ]),
+      ),
+    ).toBe(true);
+  });
+
+  it("matches `between` inclusively for numbers and dates", () => {
+    expect(
+      matches(group("and", [condition("amount", "between", [1000, 1500])])),
+    ).toBe(true);
+    expect(
+      matches(group("and", [condition("amount", "between", [1501, 2000])])),
+    ).toBe(false);
+    expect(
+      matches(
+        group("and", [
+          condition("dueDate", "between", ["2024-03-01", "2024-03-10"]),
+        ]),
+        { ...invoice, dueDate: new Date(2024, 2, 10, 18) },
+      ),
+    ).toBe(true);
+  });
+
+  it("matches `in` and `notIn` against a list, case-insensitively", () => {
+    const isOpen = group("and", [
+      condition("status", "in", ["Pendiente", "Vencida"]),
+    ]);
+    expect(matches(isOpen)).toBe(true);
+    expect(matches(isOpen, { ...invoice, status: "pagada" })).toBe(false);
+    expect(
+      matches(group("and", [condition("status", "notIn", ["pendiente"])])),
+    ).toBe(false);
+  });
+
+  it("doesn't treat blank cells as 0 or as a date", () => {
+    for (const blank of [null, ""]) {
+      const record = { ...invoice, amount: blank, dueDate: blank };
+      expect(
+        matches(group("and", [condition("amount", "lt", 10)]), record),
+      ).toBe(false);
+      expect(
+        matches(group("and", [condition("amount", "eq", 0)]), record),
+      ).toBe(false);
+      expect(
+        matches(group("and", [condition("amount", "neq", 5)]), record),
+      ).toBe(false);
+      expect(
+        matches(
+          group("and", [condition("dueDate", "lte", "2099-01-01")]),
+          record,
+        ),
+      ).toBe(false);
+      expect(
+        matches(
+          group("and", [
+            condition("amount", "isEmpty"),
+            condition("dueDate", "isEmpty"),
+          ]),
+          record,
+        ),
+      ).toBe(true);
+    }
+  });
+});
+
+describe("isConditionComplete", () => {
+  it.each<[QueryOperator, QueryValue | undefined, boolean]>([
+    ["eq", "x", true],
+    ["eq", 0, true],
+    ["eq", "", false],
+    ["eq", undefined, false],
+    ["eq", ["x"], false],
+    ["isEmpty", undefined, true],
+    ["isTrue", undefined, true],
+    ["between", [1, 2], true],
+    ["between", [1, ""], false],
+    ["between", [1], false],
+    ["in", ["a"], true],
+    ["in", [], false],
+    ["notIn", "a", false],
+  ])("%s %j -> %s", (operator, value, complete) => {
+    expect(isConditionComplete(condition("amount", operator, value))).toBe(
+      complete,
+    );
+  });
+});
+
+describe("toQueryAst", () => {
+  it("drops ids, incomplete conditions and empty groups", () => {
+    expect(
+      toQueryAst(
+        group("and", [
+          condition("amount", "between", [100, 200]),
+          condition("customer", "contains", ""),
+          condition("paid", "isTrue", "ignored"),
+          group("or", [condition("status", "in", [])]),
+          group("or", [
+            condition("status", "in", ["pendiente"]),
+            group("and", []),
+          ]),
+        ]),
+      ),
+    ).toEqual({
+      combinator: "and",
+      rules: [
+        { field: "amount", operator: "between", value: [100, 200] },
+        { field: "paid", operator: "isTrue" },
+        {
+          combinator: "or",
+          rules: [{ field: "status", operator: "in", value: ["pendiente"] }],
+        },
+      ],
+    });
+  });
+
+  it("returns null without a query or when nothing is complete", () => {
+    expect(toQueryAst(undefined)).toBeNull();
+    expect(
+      toQueryAst(group("and", [condition("amount", "gt"), group("or", [])])),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,372 @@
+import type {
+  Column,
+  ColumnDef,
+  ColumnFiltersState,
+  FilterFn,
+  RowData,
+  Table,
+} from "@tanstack/react-table";
+
+import { getColumnLabel } from "@/lib/table-export";
+import { toDayString, type FilterOption } from "@/lib/table-filters";
+
+declare module "@tanstack/react-table" {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface ColumnMeta<TData extends RowData, TValue> {
+    // Values offered by the query builder (makes the column a "select")
+    options?: FilterOption[];
+    // Set to false to leave the column out of the query builder
+    queryable?: boolean;
+  }
+}
+
+export type QueryFieldType = "text" | "number" | "date" | "boolean" | "select";
+
+export interface QueryField {
+  id: string;
+  label: string;
+  type: QueryFieldType;
+  options?: FilterOption[];
+}
+
+export type QueryOperator =
+  | "eq"
+  | "neq"
+  | "contains"
+  | "notContains"
+  | "startsWith"
+  | "endsWith"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "between"
+  | "in"
+  | "notIn"
+  | "isEmpty"
+  | "isNotEmpty"
+  | "isTrue"
+  | "isFalse";
+
+export type QueryCombinator = "and" | "or";
+
+// Dates as "yyyy-MM-dd"; `between` takes [from, to] and `in` a list
+export type QueryValue = string | number | (string | number)[];
+
+export interface QueryCondition {
+  type: "condition";
+  id: string;
+  field: string;
+  operator: QueryOperator;
+  value?: QueryValue;
+}
+
+export interface QueryGroup {
+  type: "group";
+  id: string;
+  combinator: QueryCombinator;
+  rules: QueryRule[];
+}
+
+export type QueryRule = QueryCondition | QueryGroup;
+
+// What the backend receives: no ids, no incomplete conditions
+export interface QueryAstCondition {
+  field: string;
+  operator: QueryOperator;
+  value?: QueryValue;
+}
+
+export interface QueryAstGroup {
+  combinator: QueryCombinator;
+  rules: (QueryAstCondition | QueryAstGroup)[];
+}
+
+export const QUERY_OPERATORS: Record<QueryFieldType, QueryOperator[]> = {
+  text: [
+    "contains",
+    "notContains",
+    "eq",
+    "neq",
+    "startsWith",
+    "endsWith",
+    "isEmpty",
+    "isNotEmpty",
+  ],
+  number: [
+    "eq",
+    "neq",
+    "gt",
+    "gte",
+    "lt",
+    "lte",
+    "between",
+    "isEmpty",
+    "isNotEmpty",
+  ],
+  date: ["eq", "gt", "gte", "lt", "lte", "between", "isEmpty", "isNotEmpty"],
+  boolean: ["isTrue", "isFalse"],
+  select: ["in", "notIn", "eq", "neq", "isEmpty", "isNotEmpty"],
+};
+
+const OPERATOR_LABELS: Record<QueryOperator, string> = {
+  eq: "es igual a",
+  neq: "es distinto de",
+  contains: "contiene",
+  notContains: "no contiene",
+  startsWith: "empieza con",
+  endsWith: "termina con",
+  gt: "mayor que",
+  gte: "mayor o igual que",
+  lt: "menor que",
+  lte: "menor o igual que",
+  between: "entre",
+  in: "es alguno de",
+  notIn: "no es ninguno de",
+  isEmpty: "está vacío",
+  isNotEmpty: "no está vacío",
+  isTrue: "es verdadero",
+  isFalse: "es falso",
+};
+
+const DATE_OPERATOR_LABELS: Partial<Record<QueryOperator, string>> = {
+  eq: "es el día",
+  gt: "posterior a",
+  gte: "desde",
+  lt: "anterior a",
+  lte: "hasta",
+};
+
+export const getOperatorLabel = (
+  type: QueryFieldType,
+  operator: QueryOperator,
+) =>
+  (type === "date" && DATE_OPERATOR_LABELS[operator]) ||
+  OPERATOR_LABELS[operator];
+
+const VALUELESS_OPERATORS: QueryOperator[] = [
+  "isEmpty",
+  "isNotEmpty",
+  "isTrue",
+  "isFalse",
+];
+
+export const operatorNeedsValue = (operator: QueryOperator) =>
+  !VALUELESS_OPERATORS.includes(operator);
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+export const isConditionComplete = ({ operator, value }: QueryCondition) => {
+  if (!operatorNeedsValue(operator)) return true;
+  if (operator === "between") {
+    return Array.isArray(value) && value.length === 2 && !value.some(isBlank);
+  }
+  if (operator === "in" || operator === "notIn") {
+    return Array.isArray(value) && value.length > 0;
+  }
+  return !isBlank(value) && !Array.isArray(value);
+};
+
+export const createQueryGroup = (
+  combinator: QueryCombinator = "and",
+): QueryGroup => ({
+  type: "group",
+  id: crypto.randomUUID(),
+  combinator,
+  rules: [],
+});
+
+export const createQueryCondition = (field: QueryField): QueryCondition => ({
+  type: "condition",
+  id: crypto.randomUUID(),
+  field: field.id,
+  operator: QUERY_OPERATORS[field.type][0],
+});
+
+export const countQueryConditions = (group: QueryGroup): number =>
+  group.rules.reduce(
+    (count, rule) =>
+      count +
+      (rule.type === "group"
+        ? countQueryConditions(rule)
+        : Number(isConditionComplete(rule))),
+    0,
+  );
+
+/**
+ * Serializes the query for the backend: drops ids, incomplete conditions and
+ * empty groups. Returns null when there is no query or nothing is left to
+ * filter by, so it takes `getQueryFromFilters` directly.
+ */
+export const toQueryAst = (
+  group: QueryGroup | undefined,
+): QueryAstGroup | null => {
+  if (!group) return null;
+  const rules = group.rules.flatMap<QueryAstCondition | QueryAstGroup>(
+    (rule) => {
+      if (rule.type === "group") {
+        const nested = toQueryAst(rule);
+        return nested ? [nested] : [];
+      }
+      if (!isConditionComplete(rule)) return [];
+      const { field, operator, value } = rule;
+      return [
+        operatorNeedsValue(operator)
+          ? { field, operator, value }
+          : { field, operator },
+      ];
+    },
+  );
+  return rules.length ? { combinator: group.combinator, rules } : null;
+};
+
+const compare = (
+  type: QueryFieldType,
+  rawValue: unknown,
+  { operator, value }: QueryCondition,
+) => {
+  if (operator === "isEmpty") return isBlank(rawValue);
+  if (operator === "isNotEmpty") return !isBlank(rawValue);
+  if (operator === "isTrue") return Boolean(rawValue);
+  if (operator === "isFalse") return !rawValue;
+
+  if (type === "number" || type === "date") {
+    // Number(null) and Number("") are 0; blank cells only match isEmpty
+    if (isBlank(rawValue)) return false;
+    // Dates compare as "yyyy-MM-dd" strings, numbers as numbers
+    const toComparable = (item: unknown) =>
+      type === "date" ? toDayString(item) : Number(item);
+    const cell = toComparable(rawValue);
+    if (cell === null || Number.isNaN(cell)) return false;
+    const [from, to] = (Array.isArray(value) ? value : [value]).map(
+      toComparable,
+    );
+    switch (operator) {
+      case "eq":
+        return cell === from;
+      case "neq":
+        return cell !== from;
+      case "gt":
+        return from !== null && cell > from;
+      case "gte":
+        return from !== null && cell >= from;
+      case "lt":
+        return from !== null && cell < from;
+      case "lte":
+        return from !== null && cell <= from;
+      case "between":
+        return from !== null && to !== null && cell >= from && cell <= to;
+    }
+    return false;
+  }
+
+  // Text and select compare case-insensitively
+  const cell = String(rawValue ?? "").toLowerCase();
+  const values = (Array.isArray(value) ? value : [value]).map((item) =>
+    String(item).toLowerCase(),
+  );
+  switch (operator) {
+    case "eq":
+      return cell === values[0];
+    case "neq":
+      return cell !== values[0];
+    case "contains":
+      return cell.includes(values[0]);
+    case "notContains":
+      return !cell.includes(values[0]);
+    case "startsWith":
+      return cell.startsWith(values[0]);
+    case "endsWith":
+      return cell.endsWith(values[0]);
+    case "in":
+      return values.includes(cell);
+    case "notIn":
+      return !values.includes(cell);
+  }
+  return false;
+};
+
+/**
+ * Evaluates the query against one record. `getValue` reads a field; unknown
+ * fields and incomplete conditions are ignored, so an empty query matches.
+ */
+export const evaluateQuery = (
+  group: QueryGroup,
+  getValue: (field: string) => unknown,
+  fields: QueryField[],
+): boolean => {
+  const results = group.rules.flatMap((rule) => {
+    if (rule.type === "group") {
+      return toQueryAst(rule) ? [evaluateQuery(rule, getValue, fields)] : [];
+    }
+    const field = fields.find((item) => item.id === rule.field);
+    if (!field || !isConditionComplete(rule)) return [];
+    return [compare(field.type, getValue(rule.field), rule)];
+  });
+  if (!results.length) return true;
+  return group.combinator === "and"
+    ? results.every(Boolean)
+    : results.some(Boolean);
+};
+
+const getFieldType = <TData>(
+  column: Column<TData, unknown>,
+): QueryFieldType => {
+  const { meta } = column.columnDef;
+  if (meta?.options) return "select";
+  switch (meta?.export?.type) {
+    case "number":
+    case "currency":
+    case "percent":
+      return "number";
+    case "date":
+      return "date";
+    case "boolean":
+      return "boolean";
+    default:
+      return "text";
+  }
+};
+
+// Query fields from the table's data columns, typed by `meta.export.type`
+export const getQueryFields = <TData>(table: Table<TData>): QueryField[] =>
+  table
+    .getAllLeafColumns()
+    .filter(
+      (column) =>
+        !!column.accessorFn && column.columnDef.meta?.queryable !== false,
+    )
+    .map((column) => ({
+      id: column.id,
+      label: getColumnLabel(column),
+      type: getFieldType(column),
+      options: column.columnDef.meta?.options,
+    }));
+
+// The query is stored as the filter of a hidden column so it is persisted,
+// saved in views and synced to the URL like any other column filter.
+export const QUERY_COLUMN_ID = "__query";
+
+export const getQueryFromFilters = (columnFilters: ColumnFiltersState) =>
+  columnFilters.find(({ id }) => id === QUERY_COLUMN_ID)?.value as
+    QueryGroup | undefined;
+
+// Hidden column that evaluates the query client-side. `getFields` is read on
+// every run so it can follow column changes.
+export const getQueryColumn = <TData>(
+  getFields: () => QueryField[],
+): ColumnDef<TData> => {
+  const filterFn: FilterFn<TData> = (row, _columnId, query: QueryGroup) =>
+    evaluateQuery(query, (field) => row.getValue(field), getFields());
+
+  return {
+    id: QUERY_COLUMN_ID,
+    header: () => null,
+    cell: () => null,
+    filterFn,
+    enableHiding: false,
+    enableSorting: false,
+    meta: { exportable: false, queryable: false },
+  };
+};
@@ -0,0 +1,59 @@
+import type { TableStateStorage, TableViewState } from "@/lib/table-view-state";
+
+export interface SavedTableView {
+  id: string;
+  name: string;
+  state: Partial<TableViewState>;
+  // Applied when the table mounts
+  isDefault?: boolean;
+  updatedAt: string;
+}
+
+// Sync or async, so views can live in an API and be shared per team
+export interface SavedViewsBackend {
+  list: (tableId: string) => SavedTableView[] | Promise<SavedTableView[]>;
+  // Creates or replaces the view with the same id
+  save: (tableId: string, view: SavedTableView) => void | Promise<void>;
+  remove: (tableId: string, viewId: string) => void | Promise<void>;
+}
+
+const STORAGE_PREFIX = "table-views:";
+
+// Keeps every view of a table as one JSON entry (localStorage by default)
+export const createStorageViewsBackend = (
+  storage: TableStateStorage = window.localStorage,
+): SavedViewsBackend => {
+  const read = async (tableId: string): Promise<SavedTableView[]> => {
+    try {
+      const raw = await storage.getItem(STORAGE_PREFIX + tableId);
+      const views: unknown = raw ? JSON.parse(raw) : [];
+      return Array.isArray(views) ? views : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (tableId: string, views: SavedTableView[]) =>
+    storage.setItem(STORAGE_PREFIX + tableId, JSON.stringify(views));
+
+  return {
+    list: read,
+    save: async (tableId, view) => {
+      const views = await read(tableId);
+      const exists = views.some((item) => item.id === view.id);
+      await write(
+        tableId,
+        exists
+          ? views.map((item) => (item.id === view.id ? view : item))
+          : [...views, view],
+      );
+    },
+    remove: async (tableId, viewId) => {
+      const views = await read(tableId);
+      await write(
+        tableId,
+        views.filter((item) => item.id !== viewId),
+      );
+    },
+  };
+};
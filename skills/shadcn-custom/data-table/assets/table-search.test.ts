@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  foldSearchText,
+  getHighlightRanges,
+  getSearchScore,
+} from "./table-search";
+
+describe("getSearchScore", () => {
+  it("ignores accents and case on both sides", () => {
+    expect(foldSearchText("José PÉREZ")).toBe("jose perez");
+    expect(getSearchScore("José Pérez", "jose")).toBeGreaterThan(0);
+    expect(getSearchScore("Jose Perez", "PÉREZ")).toBeGreaterThan(0);
+  });
+
+  it("requires every word of the query, in any order", () => {
+    const text = "José Pérez Av. Caballito 123";
+    expect(getSearchScore(text, "caba jose")).toBeGreaterThan(0);
+    expect(getSearchScore(text, "jose palermo")).toBe(0);
+  });
+
+  it("ranks whole words over prefixes over substrings", () => {
+    expect(getSearchScore("Ana Gómez", "ana")).toBeGreaterThan(
+      getSearchScore("Anabel Gómez", "ana"),
+    );
+    expect(getSearchScore("Anabel Gómez", "ana")).toBeGreaterThan(
+      getSearchScore("Mariana Gómez", "ana"),
+    );
+  });
+
+  it("accepts typos only with `fuzzy`", () => {
+    expect(getSearchScore("González", "gonzales")).toBe(0);
+    expect(
+      getSearchScore("González", "gonzales", { fuzzy: true }),
+    ).toBeGreaterThan(0);
+    // Against the start of a longer word too
+    expect(
+      getSearchScore("González", "gomzal", { fuzzy: true }),
+    ).toBeGreaterThan(0);
+  });
+
+  it("allows more typos the longer the word is", () => {
+    const fuzzy = { fuzzy: true };
+    // Up to 3 letters: exact only
+    expect(getSearchScore("Ana", "ama", fuzzy)).toBe(0);
+    // 4 to 7 letters: one typo, a swap counts as one
+    expect(getSearchScore("José", "jsoe", fuzzy)).toBeGreaterThan(0);
+    expect(getSearchScore("Pérez", "pwrez", fuzzy)).toBeGreaterThan(0);
+    expect(getSearchScore("Pérez", "pwrwz", fuzzy)).toBe(0);
+    // 8 or more: two typos
+    expect(getSearchScore("González", "gomzales", fuzzy)).toBeGreaterThan(0);
+    expect(getSearchScore("González", "gomzalas", fuzzy)).toBe(0);
+  });
+});
+
+describe("getHighlightRanges", () => {
+  it("maps matches on folded text back to the accented original", () => {
+    const text = "José Pérez";
+    const ranges = getHighlightRanges(text, "jose PER");
+
+    expect(ranges).toEqual([
+      [0, 4],
+      [5, 8],
+    ]);
+    expect(ranges.map(([start, end]) => text.slice(start, end))).toEqual([
+      "José",
+      "Pér",
+    ]);
+  });
+
+  it("keeps decomposed accents inside the range", () => {
+    // "José" written as "e" + combining acute accent
+    const text = "José Luis";
+    expect(getHighlightRanges(text, "jose")).toEqual([[0, 5]]);
+    expect(getHighlightRanges(text, "luis")).toEqual([[6, 10]]);
+  });
+
+  it("merges overlapping matches and finds repeated ones", () => {
+    expect(getHighlightRanges("Ana Anabel", "ana nab")).toEqual([
+      [0, 3],
+      [4, 8],
+    ]);
+    expect(getHighlightRanges("Ana", "")).toEqual([]);
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  getSortedRowModel,
+  type FilterFn,
+  type Row,
+  type RowModel,
+  type Table,
+} from "@tanstack/react-table";
+
+declare module "@tanstack/react-table" {
+  interface FilterMeta {
+    // Relevance of the row for the global search (higher is better)
+    searchRank?: number;
+  }
+}
+
+export interface TableSearchOptions {
+  // Tolerate typos ("Gonzales" finds "González")
+  fuzzy?: boolean;
+  // Order results by relevance while no column sorting is active
+  rank?: boolean;
+}
+
+// "José Pérez" -> "jose perez"
+export const foldSearchText = (value: unknown) =>
+  String(value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+export const tokenizeSearch = (query: string) =>
+  foldSearchText(query).split(/\s+/).filter(Boolean);
+
+// Optimal string alignment distance (a swap of two letters counts as one),
+// giving up once it exceeds `max`
+const getEditDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short tokens must match exactly; longer ones allow one or two typos
+const getAllowedTypos = (token: string) =>
+  token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0;
+
+const scoreToken = (token: string, text: string, words: string[]) => {
+  if (words.includes(token)) return 4;
+  if (words.some((word) => word.startsWith(token))) return 3;
+  if (text.includes(token)) return 2;
+
+  const typos = getAllowedTypos(token);
+  if (!typos) return 0;
+  // Compare with whole words and with their prefixes ("gonzal" ~ "gonzalez")
+  const isClose = words.some(
+    (word) =>
+      getEditDistance(token, word, typos) <= typos ||
+      getEditDistance(token, word.slice(0, token.length), typos) <= typos,
+  );
+  return isClose ? 1 : 0;
+};
+
+/**
+ * Scores `text` against the query: every token must match (AND), as a word,
+ * prefix or substring, or with typos when `fuzzy` is on. Returns 0 when the
+ * text doesn't match.
+ */
+export const getSearchScore = (
+  text: string,
+  query: string,
+  { fuzzy = false }: TableSearchOptions = {},
+) => {
+  const tokens = tokenizeSearch(query);
+  if (!tokens.length) return 1;
+  const folded = foldSearchText(text);
+  const words = folded.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+  let score = 0;
+  for (const token of tokens) {
+    const tokenScore = scoreToken(token, folded, words);
+    if (!tokenScore || (tokenScore === 1 && !fuzzy)) return 0;
+    score += tokenScore;
+  }
+  return score;
+};
+
+/**
+ * Global filter for TanStack tables. Tokens may match different columns
+ * ("jose caba" finds José in the name and Caballito in the address), so the
+ * row is scored as a whole and cached per query.
+ */
+export const createSearchFilterFn = <TData>(
+  options: TableSearchOptions = {},
+): FilterFn<TData> => {
+  const cache = new WeakMap<Row<TData>, { query: string; score: number }>();
+
+  return (row, _columnId, query: string, addMeta) => {
+    let cached = cache.get(row);
+    if (cached?.query !== query) {
+      const text = row
+        .getAllCells()
+        .filter((cell) => cell.column.getCanGlobalFilter())
+        .map((cell) => cell.getValue())
+        .join(" ");
+      cached = { query, score: getSearchScore(text, query, options) };
+      cache.set(row, cached);
+    }
+    addMeta({ searchRank: cached.score });
+    return cached.score > 0;
+  };
+};
+
+const getSearchRank = <TData>(row: Row<TData>) =>
+  Math.max(
+    0,
+    ...Object.values(row.columnFiltersMeta).map(
+      (meta) => meta?.searchRank ?? 0,
+    ),
+  );
+
+// Sorted row model that orders search results by relevance while the user
+// hasn't sorted by a column
+export const getSearchRankedRowModel =
+  <TData>() =>
+  (table: Table<TData>) => {
+    const getSortedRows = getSortedRowModel<TData>()(table);
+    let cache: { input: RowModel<TData>; output: RowModel<TData> } | undefined;
+
+    return () => {
+      const model = getSortedRows();
+      const { sorting, globalFilter } = table.getState();
+      if (sorting.length || !globalFilter) return model;
+      if (cache?.input !== model) {
+        // Array sort is stable: equal ranks keep the data order
+        const rows = [...model.rows].sort(
+          (a, b) => getSearchRank(b) - getSearchRank(a),
+        );
+        cache = { input: model, output: { ...model, rows } };
+      }
+      return cache.output;
+    };
+  };
+
+/**
+ * Ranges of `text` matching the query tokens (accent and case-insensitive),
+ * merged and sorted, for highlighting.
+ */
+export const getHighlightRanges = (text: string, query: string) => {
+  const tokens = tokenizeSearch(query);
+  if (!tokens.length) return [];
+
+  // Fold character by character to map matches back to the original text
+  let folded = "";
+  const sourceIndex: number[] = [];
+  Array.from(text).reduce((offset, char) => {
+    const foldedChar = foldSearchText(char);
+    folded += foldedChar;
+    for (let i = 0; i < foldedChar.length; i++) sourceIndex.push(offset);
+    return offset + char.length;
+  }, 0);
+  sourceIndex.push(text.length);
+
+  const ranges: [number, number][] = [];
+  for (const token of tokens) {
+    for (
+      let index = folded.indexOf(token);
+      index !== -1;
+      index = folded.indexOf(token, index + token.length)
+    ) {
+      ranges.push([sourceIndex[index], sourceIndex[index + token.length]]);
+    }
+  }
+
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<[number, number][]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+      else merged.push([...range]);
+      return merged;
+    }, []);
+};
@@ -0,0 +1,256 @@
+import type {
+  ColumnFiltersState,
+  ColumnOrderState,
+  ColumnPinningState,
+  ColumnSizingState,
+  GroupingState,
+  SortingState,
+  Table,
+  VisibilityState,
+} from "@tanstack/react-table";
+
+// The part of a table's state that describes how the user likes to see it
+export interface TableViewState {
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
+  globalFilter: string;
+  columnVisibility: VisibilityState;
+  columnOrder: ColumnOrderState;
+  columnSizing: ColumnSizingState;
+  columnPinning: ColumnPinningState;
+  grouping: GroupingState;
+  pageSize: number;
+}
+
+// Sync or async key-value storage. `localStorage` and `sessionStorage` fit
+// as is; wrap IndexedDB or an API call to store views per user.
+export interface TableStateStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+export type TableStateMigration = (
+  state: Record<string, unknown>,
+) => Record<string, unknown>;
+
+export interface TableStatePersistOptions {
+  // Defaults to localStorage
+  storage?: TableStateStorage;
+  // Bump when the stored shape changes and add a migration for it
+  version?: number;
+  // migrations[n] upgrades state saved with version n - 1 to version n.
+  // Without a path to the current version the stored state is discarded.
+  migrations?: Record<number, TableStateMigration>;
+}
+
+const STORAGE_PREFIX = "table-state:";
+
+const getStorage = ({ storage }: TableStatePersistOptions) =>
+  storage ?? (typeof window === "undefined" ? undefined : window.localStorage);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Keeps the entries of known columns whose value passes `isValid`
+const pickColumns = <TValue>(
+  value: unknown,
+  columnIds: Set<string>,
+  isValid: (item: unknown) => item is TValue,
+) =>
+  isRecord(value)
+    ? Object.fromEntries(
+        Object.entries(value).filter(
+          (entry): entry is [string, TValue] =>
+            columnIds.has(entry[0]) && isValid(entry[1]),
+        ),
+      )
+    : undefined;
+
+// Known column ids from a stored list, in order
+const pickColumnIds = (value: unknown, columnIds: Set<string>) =>
+  Array.isArray(value)
+    ? value.filter(
+        (id): id is string => typeof id === "string" && columnIds.has(id),
+      )
+    : [];
+
+const isBoolean = (value: unknown): value is boolean =>
+  typeof value === "boolean";
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && value > 0;
+
+export const getTableViewState = <TData>(
+  table: Table<TData>,
+): TableViewState => {
+  const state = table.getState();
+  return {
+    sorting: state.sorting,
+    columnFilters: state.columnFilters,
+    globalFilter: state.globalFilter ?? "",
+    columnVisibility: state.columnVisibility,
+    columnOrder: state.columnOrder,
+    columnSizing: state.columnSizing,
+    columnPinning: state.columnPinning,
+    grouping: state.grouping,
+    pageSize: state.pagination.pageSize,
+  };
+};
+
+// Applies every slice present in `state`, leaving the others untouched
+export const applyTableViewState = <TData>(
+  table: Table<TData>,
+  state: Partial<TableViewState>,
+) => {
+  if (state.sorting) table.setSorting(state.sorting);
+  if (state.columnFilters) table.setColumnFilters(state.columnFilters);
+  if (state.globalFilter !== undefined) {
+    table.setGlobalFilter(state.globalFilter);
+  }
+  if (state.columnVisibility) table.setColumnVisibility(state.columnVisibility);
+  if (state.columnOrder) table.setColumnOrder(state.columnOrder);
+  if (state.columnSizing) table.setColumnSizing(state.columnSizing);
+  if (state.columnPinning) table.setColumnPinning(state.columnPinning);
+  if (state.grouping) table.setGrouping(state.grouping);
+  if (state.pageSize) table.setPageSize(state.pageSize);
+};
+
+export const migrateTableViewState = (
+  stored: unknown,
+  { version = 1, migrations = {} }: TableStatePersistOptions = {},
+) => {
+  if (!isRecord(stored) || !isRecord(stored.state)) return null;
+  if (typeof stored.version !== "number" || stored.version > version) {
+    return null;
+  }
+
+  let state = stored.state;
+  for (let next = stored.version + 1; next <= version; next++) {
+    const migrate = migrations[next];
+    if (!migrate) return null;
+    state = migrate(state);
+  }
+  return state;
+};
+
+// Drops whatever doesn't match the current column set, so a renamed or
+// removed column can't break the table.
+export const sanitizeTableViewState = (
+  state: Record<string, unknown>,
+  columnIds: string[],
+): Partial<TableViewState> => {
+  const known = new Set(columnIds);
+  const isKnownColumn = (item: unknown): item is Record<string, unknown> =>
+    isRecord(item) && typeof item.id === "string" && known.has(item.id);
+  const result: Partial<TableViewState> = {};
+
+  if (Array.isArray(state.sorting)) {
+    result.sorting = state.sorting
+      .filter(isKnownColumn)
+      .filter((item) => isBoolean(item.desc))
+      .map((item) => ({ id: item.id as string, desc: item.desc as boolean }));
+  }
+  if (Array.isArray(state.columnFilters)) {
+    result.columnFilters = state.columnFilters
+      .filter(isKnownColumn)
+      .map((item) => ({ id: item.id as string, value: item.value }));
+  }
+  if (typeof state.globalFilter === "string") {
+    result.globalFilter = state.globalFilter;
+  }
+  result.columnVisibility = pickColumns(
+    state.columnVisibility,
+    known,
+    isBoolean,
+  );
+  result.columnSizing = pickColumns(
+    state.columnSizing,
+    known,
+    isPositiveNumber,
+  );
+  if (Array.isArray(state.columnOrder)) {
+    result.columnOrder = pickColumnIds(state.columnOrder, known);
+  }
+  if (isRecord(state.columnPinning)) {
+    result.columnPinning = {
+      left: pickColumnIds(state.columnPinning.left, known),
+      right: pickColumnIds(state.columnPinning.right, known),
+    };
+  }
+  if (Array.isArray(state.grouping)) {
+    result.grouping = pickColumnIds(state.grouping, known);
+  }
+  if (isPositiveNumber(state.pageSize) && Number.isInteger(state.pageSize)) {
+    result.pageSize = state.pageSize;
+  }
+  return result;
+};
+
+const parseTableViewState = (
+  raw: string | null,
+  columnIds: string[],
+  options: TableStatePersistOptions,
+) => {
+  if (!raw) return null;
+  try {
+    const state = migrateTableViewState(JSON.parse(raw), options);
+    return state && sanitizeTableViewState(state, columnIds);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads the saved view for `key`, migrated to the current version and cleaned
+ * against `columnIds`. Returns synchronously for sync storages so the table
+ * can restore before the first paint.
+ */
+export const loadTableViewState = (
+  key: string,
+  columnIds: string[],
+  options: TableStatePersistOptions = {},
+): Partial<TableViewState> | null | Promise<Partial<TableViewState> | null> => {
+  const storage = getStorage(options);
+  if (!storage) return null;
+
+  try {
+    const raw = storage.getItem(STORAGE_PREFIX + key);
+    return raw instanceof Promise
+      ? raw
+          .then((value) => parseTableViewState(value, columnIds, options))
+          .catch(() => null)
+      : parseTableViewState(raw, columnIds, options);
+  } catch {
+    // Storage disabled (private mode, blocked cookies)
+    return null;
+  }
+};
+
+// Persistence is best effort: a full or unavailable storage never breaks the
+// table.
+export const saveTableViewState = async (
+  key: string,
+  state: TableViewState,
+  options: TableStatePersistOptions = {},
+) => {
+  try {
+    await getStorage(options)?.setItem(
+      STORAGE_PREFIX + key,
+      JSON.stringify({ version: options.version ?? 1, state }),
+    );
+  } catch {
+    // Ignored on purpose
+  }
+};
+
+export const clearTableViewState = async (
+  key: string,
+  options: TableStatePersistOptions = {},
+) => {
+  try {
+    await getStorage(options)?.removeItem(STORAGE_PREFIX + key);
+  } catch {
+    // Ignored on purpose
+  }
+};
@@ -0,0 +1,122 @@
+import type { Row } from "@tanstack/react-table";
+import {
+  useEffect,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type RefObject,
+} from "react";
+
+interface TableRowNavigationOptions<TData> {
+  rows: Row<TData>[];
+  // Body holding the rows, each one marked with `data-index`
+  bodyRef: RefObject<HTMLTableSectionElement | null>;
+  // Rows moved by PageUp / PageDown
+  getPageSize: () => number;
+  // Paginated tables turn the page on PageUp / PageDown instead. Returns
+  // whether the page changed.
+  onPageChange?: (step: 1 | -1) => boolean;
+  // Renders the row before it is focused (virtualized bodies)
+  scrollToIndex?: (index: number) => void;
+  // Space on a focused row
+  onRowSelect?: (row: Row<TData>) => void;
+  // Enter on a focused row
+  onRowActivate?: (row: Row<TData>) => void;
+}
+
+/**
+ * Keyboard model of a WAI-ARIA grid with row focus. A roving tabindex keeps
+ * one row in the tab order; ↑/↓, PageUp/PageDown and Home/End move it, ←/→
+ * collapse and expand group and detail rows, Space selects and Enter
+ * activates.
+ */
+export function useTableRowNavigation<TData>({
+  rows,
+  bodyRef,
+  getPageSize,
+  onPageChange,
+  scrollToIndex,
+  onRowSelect,
+  onRowActivate,
+}: TableRowNavigationOptions<TData>) {
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const focusPendingRef = useRef(false);
+  const activeIndex = Math.min(focusedIndex, rows.length - 1);
+  // Virtualized bodies scroll the row into view themselves
+  const preventScroll = !!scrollToIndex;
+
+  // Focus the row once it is rendered after a keyboard move or page change.
+  // `rows` is a dependency so a new page re-runs it at the same index.
+  useEffect(() => {
+    if (!focusPendingRef.current) return;
+    focusPendingRef.current = false;
+    bodyRef.current
+      ?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)
+      ?.focus({ preventScroll });
+  }, [bodyRef, activeIndex, rows, preventScroll]);
+
+  const moveFocus = (index: number) => {
+    const next = Math.max(0, Math.min(index, rows.length - 1));
+    if (next === activeIndex) return;
+    focusPendingRef.current = true;
+    setFocusedIndex(next);
+    scrollToIndex?.(next);
+  };
+
+  const handleKeyDown = (
+    event: KeyboardEvent<HTMLTableRowElement>,
+    row: Row<TData>,
+    index: number,
+  ) => {
+    // Leave keys pressed inside cell controls (checkboxes, buttons) alone
+    if (event.target !== event.currentTarget) return;
+    const pageSize = Math.max(1, getPageSize());
+    const moves: Record<string, number> = {
+      ArrowDown: index + 1,
+      ArrowUp: index - 1,
+      Home: 0,
+      End: rows.length - 1,
+      ...(!onPageChange && {
+        PageDown: index + pageSize,
+        PageUp: index - pageSize,
+      }),
+    };
+
+    if (event.key in moves) {
+      event.preventDefault();
+      moveFocus(moves[event.key]);
+    } else if (
+      (event.key === "PageDown" || event.key === "PageUp") &&
+      onPageChange
+    ) {
+      event.preventDefault();
+      // The focused row unmounts with the old page; focus the same position
+      focusPendingRef.current = onPageChange(event.key === "PageDown" ? 1 : -1);
+    } else if (
+      (event.key === "ArrowRight" || event.key === "ArrowLeft") &&
+      row.getCanExpand()
+    ) {
+      event.preventDefault();
+      row.toggleExpanded(event.key === "ArrowRight");
+    } else if (event.key === " " && onRowSelect) {
+      event.preventDefault();
+      onRowSelect(row);
+    } else if (event.key === "Enter" && onRowActivate) {
+      event.preventDefault();
+      onRowActivate(row);
+    }
+  };
+
+  // Props for each rendered row
+  const getRowProps = (row: Row<TData>, index: number) => ({
+    "data-index": index,
+    tabIndex: index === activeIndex ? 0 : -1,
+    className:
+      "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring",
+    onFocus: () => setFocusedIndex(index),
+    onKeyDown: (event: KeyboardEvent<HTMLTableRowElement>) =>
+      handleKeyDown(event, row, index),
+  });
+
+  return { activeIndex, getRowProps };
+}
@@ -0,0 +1,165 @@
+import type {
+  ColumnFiltersState,
+  PaginationState,
+  SortingState,
+} from "@tanstack/react-table";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router";
+
+interface TableSearchParamsOptions {
+  // Namespaces the params when a page has several tables, e.g. "clientes."
+  prefix?: string;
+  defaultPageSize?: number;
+  // Delay before the URL is updated (typing in the search box)
+  debounceMs?: number;
+}
+
+interface TableSearchParamsState {
+  globalFilter: string;
+  sorting: SortingState;
+  pagination: PaginationState;
+  columnFilters: ColumnFiltersState;
+}
+
+// Every filter value is JSON, so "true" or "[1,2]" typed as text comes back
+// as the same string instead of a boolean or an array
+const encodeFilterValue = (value: unknown) => JSON.stringify(value);
+
+// Values that aren't valid JSON (hand-edited URLs) are dropped
+const decodeFilterValue = (value: string): { value: unknown } | null => {
+  try {
+    return { value: JSON.parse(value) };
+  } catch {
+    return null;
+  }
+};
+
+const readTableParams = (
+  params: URLSearchParams,
+  prefix: string,
+  defaultPageSize: number,
+): TableSearchParamsState => {
+  const page = Number(params.get(`${prefix}page`));
+  const size = Number(params.get(`${prefix}size`));
+  const filterPrefix = `${prefix}f.`;
+
+  return {
+    globalFilter: params.get(`${prefix}q`) ?? "",
+    // sort=name,-createdAt
+    sorting: (params.get(`${prefix}sort`) ?? "")
+      .split(",")
+      .filter(Boolean)
+      .map((item) =>
+        item.startsWith("-")
+          ? { id: item.slice(1), desc: true }
+          : { id: item, desc: false },
+      ),
+    pagination: {
+      pageIndex: Number.isInteger(page) && page > 1 ? page - 1 : 0,
+      pageSize: Number.isInteger(size) && size > 0 ? size : defaultPageSize,
+    },
+    // f.status="activo"&f.total=[100,500]
+    columnFilters: [...params.entries()].flatMap(([key, value]) => {
+      const decoded = key.startsWith(filterPrefix)
+        ? decodeFilterValue(value)
+        : null;
+      return decoded
+        ? [{ id: key.slice(filterPrefix.length), value: decoded.value }]
+        : [];
+    }),
+  };
+};
+
+const writeTableParams = (
+  current: URLSearchParams,
+  state: TableSearchParamsState,
+  prefix: string,
+  defaultPageSize: number,
+) => {
+  const params = new URLSearchParams(current);
+  // Drop our params and keep everybody else's
+  [...params.keys()]
+    .filter(
+      (key) =>
+        key.startsWith(`${prefix}f.`) ||
+        ["q", "sort", "page", "size"].some((name) => key === prefix + name),
+    )
+    .forEach((key) => params.delete(key));
+
+  const { globalFilter, sorting, pagination, columnFilters } = state;
+  if (globalFilter) params.set(`${prefix}q`, globalFilter);
+  if (sorting.length) {
+    params.set(
+      `${prefix}sort`,
+      sorting.map(({ id, desc }) => (desc ? `-${id}` : id)).join(","),
+    );
+  }
+  if (pagination.pageIndex > 0) {
+    params.set(`${prefix}page`, String(pagination.pageIndex + 1));
+  }
+  if (pagination.pageSize !== defaultPageSize) {
+    params.set(`${prefix}size`, String(pagination.pageSize));
+  }
+  columnFilters.forEach(({ id, value }) =>
+    params.set(`${prefix}f.${id}`, encodeFilterValue(value)),
+  );
+  return params;
+};
+
+/**
+ * Two-way binds search, sorting, page, page size and column filters to the
+ * URL query string so filtered lists can be shared and survive a reload.
+ * Writes are debounced and replace the history entry; back/forward and links
+ * update the table. Spread the result into `DataTable`.
+ */
+export function useTableSearchParams({
+  prefix = "",
+  defaultPageSize = 10,
+  debounceMs = 300,
+}: TableSearchParamsOptions = {}) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlState = useMemo(
+    () => readTableParams(searchParams, prefix, defaultPageSize),
+    [searchParams, prefix, defaultPageSize],
+  );
+  const [state, setState] = useState(urlState);
+  // Last state this hook wrote, to tell our own writes from navigation
+  const writtenRef = useRef(JSON.stringify(urlState));
+
+  // URL -> state: back/forward or a link to the same page
+  useEffect(() => {
+    const serialized = JSON.stringify(urlState);
+    if (serialized === writtenRef.current) return;
+    writtenRef.current = serialized;
+    setState(urlState);
+  }, [urlState]);
+
+  // State -> URL, debounced
+  useEffect(() => {
+    const serialized = JSON.stringify(state);
+    if (serialized === writtenRef.current) return;
+    const timeout = setTimeout(() => {
+      writtenRef.current = serialized;
+      setSearchParams(
+        (current) => writeTableParams(current, state, prefix, defaultPageSize),
+        { replace: true },
+      );
+    }, debounceMs);
+    return () => clearTimeout(timeout);
+  }, [state, prefix, defaultPageSize, debounceMs, setSearchParams]);
+
+  return {
+    globalFilter: state.globalFilter,
+    onGlobalFilterChange: (globalFilter: string) =>
+      setState((previous) => ({ ...previous, globalFilter })),
+    sorting: state.sorting,
+    onSortingChange: (sorting: SortingState) =>
+      setState((previous) => ({ ...previous, sorting })),
+    pagination: state.pagination,
+    onPaginationChange: (pagination: PaginationState) =>
+      setState((previous) => ({ ...previous, pagination })),
+    columnFilters: state.columnFilters,
+    onColumnFiltersChange: (columnFilters: ColumnFiltersState) =>
+      setState((previous) => ({ ...previous, columnFilters })),
+  };
+}
@@ -36,6 +36,8 @@ export interface DateRangePickerProps {
   align?: "start" | "center" | "end";
   locale?: string;
   showCompare?: boolean;
+  // Shown instead of a default range while no initial dates are given
+  placeholder?: string;
 }
 
 const formatDate = (date: Date, locale: string = "es"): string => {
@@ -82,6 +84,7 @@ export const DateRangePicker: FC<DateRangePickerProps> = ({
   align = "end",
   locale = "es",
   showCompare = true,
+  placeholder,
 }): JSX.Element => {
   const [isOpen, setIsOpen] = useState(false);
 
@@ -146,8 +149,10 @@ export const DateRangePicker: FC<DateRangePickerProps> = ({
     return { from, to };
   };
 
+  const isEmpty = !initialDateFrom && !initialDateTo;
+
   const [range, setRange] = useState<DateRange>(() => {
-    if (!initialDateFrom && !initialDateTo) {
+    if (isEmpty) {
       return getPresetRange("last7");
     }
     const fromValue = initialDateFrom
@@ -319,9 +324,15 @@ export const DateRangePicker: FC<DateRangePickerProps> = ({
         <Button size={"lg"} variant="outline">
           <div className="text-right">
             <div className="py-1">
-              <div>{`${formatDate(range.from!, locale)}${
-                range.to != null ? " - " + formatDate(range.to, locale) : ""
-              }`}</div>
+              <div>
+                {(placeholder && isEmpty && !isOpen) || !range.from
+                  ? placeholder
+                  : `${formatDate(range.from!, locale)}${
+                      range.to != null
+                        ? " - " + formatDate(range.to, locale)
+                        : ""
+                    }`}
+              </div>
             </div>
             {rangeCompare != null && (
               <div className="opacity-60 text-xs -mt-1">
@@ -529,6 +540,7 @@ export const DateRangePicker: FC<DateRangePickerProps> = ({
             onClick={() => {
               setIsOpen(false);
               if (
+                (placeholder && isEmpty) ||
                 !areRangesEqual(range, openedRangeRef.current) ||
                 !areRangesEqual(rangeCompare, openedRangeCompareRef.current)
               ) {